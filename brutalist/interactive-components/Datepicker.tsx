@@ -177,6 +177,7 @@ export const Datepicker: React.FC<DatepickerProps> = ({
       
       cells.push(
         <button
+          type="button"
           key={`day-${day}`}
           className={`
             h-8 w-8 font-mono flex items-center justify-center
@@ -330,6 +331,7 @@ export const Datepicker: React.FC<DatepickerProps> = ({
           {/* Month and year navigation */}
           <div className="flex justify-between items-center mb-4">
             <button
+              type="button"
               className="px-2 py-1 border-2 border-black font-mono hover:bg-gray-100"
               onClick={goToPreviousMonth}
             >
@@ -359,6 +361,7 @@ export const Datepicker: React.FC<DatepickerProps> = ({
             </div>
             
             <button
+              type="button"
               className="px-2 py-1 border-2 border-black font-mono hover:bg-gray-100"
               onClick={goToNextMonth}
             >
@@ -386,6 +389,7 @@ export const Datepicker: React.FC<DatepickerProps> = ({
           {/* Today button */}
           <div className="mt-4 flex justify-center">
             <button
+              type="button"
               className="px-3 py-1 border-2 border-black font-mono text-sm hover:bg-gray-100"
               onClick={() => handleDateSelect(new Date())}
             >
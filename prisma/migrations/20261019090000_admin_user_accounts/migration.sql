@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AdminUser" ADD COLUMN     "disabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "lastLoginAt" TIMESTAMP(3);
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "AdminRole" AS ENUM ('OWNER', 'EDITOR', 'AUTHOR');
+
+-- AlterTable
+ALTER TABLE "AdminUser" ADD COLUMN     "role" "AdminRole" NOT NULL DEFAULT 'AUTHOR';
+
+-- Accounts created before roles existed had full access, keep it that way
+UPDATE "AdminUser" SET "role" = 'OWNER';
+
+-- AlterTable
+ALTER TABLE "BlogPost" ADD COLUMN     "authorId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "BlogPost" ADD CONSTRAINT "BlogPost_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "Revision" (
+    "id" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "authorId" TEXT,
+    "authorUsername" TEXT,
+    "restoredFrom" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Revision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Revision_entityType_entityId_number_key" ON "Revision"("entityType", "entityId", "number");
+
+-- AddForeignKey
+ALTER TABLE "Revision" ADD CONSTRAINT "Revision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "AdminUser"("id") ON DELETE SET NULL ON UPDATE CASCADE;
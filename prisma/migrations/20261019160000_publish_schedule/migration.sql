@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "BlogPost" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
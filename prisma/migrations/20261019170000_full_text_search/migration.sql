@@ -0,0 +1,28 @@
+-- array_to_string is only STABLE, which generated columns don't accept. Joining
+-- a text[] with a space doesn't depend on any setting, so this wrapper is safe
+-- to declare IMMUTABLE.
+CREATE FUNCTION immutable_array_to_string(text[]) RETURNS text
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE
+    AS $$ SELECT array_to_string($1, ' ') $$;
+
+-- AlterTable
+ALTER TABLE "BlogPost" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', immutable_array_to_string("tags")), 'B') ||
+    setweight(to_tsvector('english', coalesce("excerpt", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', immutable_array_to_string("technologies")), 'B') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "BlogPost_searchVector_idx" ON "BlogPost" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Project_searchVector_idx" ON "Project" USING GIN ("searchVector");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ThoughtLink" (
+    "id" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "targetId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ThoughtLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ThoughtLink_target_idx" ON "ThoughtLink"("target");
+
+-- CreateIndex
+CREATE INDEX "ThoughtLink_targetId_idx" ON "ThoughtLink"("targetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ThoughtLink_sourceId_target_key" ON "ThoughtLink"("sourceId", "target");
+
+-- AddForeignKey
+ALTER TABLE "ThoughtLink" ADD CONSTRAINT "ThoughtLink_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "BlogPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ThoughtLink" ADD CONSTRAINT "ThoughtLink_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "BlogPost"("id") ON DELETE SET NULL ON UPDATE CASCADE;
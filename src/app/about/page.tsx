@@ -1,7 +1,15 @@
+import type { Metadata } from 'next';
 import React from 'react';
 import Skills from '@/components/Skills';
 import Career from '@/components/Career';
 import Personal from '@/components/Personal';
+import { pageMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = pageMetadata({
+  title: 'About',
+  description: 'Career, personal interests and beliefs of Łukasz Bartoszcze.',
+  path: '/about',
+});
 
 export default function AboutPage() {
   return (
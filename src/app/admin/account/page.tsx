@@ -0,0 +1,282 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { adminFetch } from '@/lib/admin-fetch'
+import type { FieldErrors } from '@/lib/validation'
+import FieldError from '@/components/admin/FieldError'
+
+type TwoFactorStatus = {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+}
+
+type Enrollment = {
+  secret: string
+  otpauthUri: string
+  qrCode: string
+}
+
+export default function AccountSecurity() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [message, setMessage] = useState({ text: '', type: '' })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  const router = useRouter()
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const response = await adminFetch('/api/admin/account/two-factor', {
+          credentials: 'include', // Include JWT cookie
+        })
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            // Redirect to login if unauthorized
+            router.push('/admin/login')
+            return
+          }
+          throw new Error(`Error: ${response.status}`)
+        }
+
+        setStatus(await response.json())
+      } catch (err) {
+        console.error('Error fetching two-factor status:', err)
+        setMessage({ text: 'Failed to load two-factor status', type: 'error' })
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchStatus()
+  }, [router])
+
+  // Sends a request to the two-factor endpoint and surfaces API errors
+  const callTwoFactorApi = async (url: string, method: string, body?: object) => {
+    setWorking(true)
+    setMessage({ text: '', type: '' })
+    setFieldErrors({})
+
+    try {
+      const response = await adminFetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // Include JWT cookie
+        body: body ? JSON.stringify(body) : undefined,
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
+        setMessage({ text: data.error || 'Something went wrong', type: 'error' })
+        return null
+      }
+
+      return data
+    } catch (err) {
+      console.error('Two-factor request failed:', err)
+      setMessage({ text: 'An unexpected error occurred', type: 'error' })
+      return null
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleStartEnrollment = async () => {
+    const data = await callTwoFactorApi('/api/admin/account/two-factor', 'POST')
+    if (data) {
+      setEnrollment(data)
+      setRecoveryCodes([])
+    }
+  }
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const data = await callTwoFactorApi('/api/admin/account/two-factor', 'PUT', { code })
+    if (data) {
+      setEnrollment(null)
+      setCode('')
+      setRecoveryCodes(data.recoveryCodes)
+      setStatus({
+        enabled: true,
+        enabledAt: new Date().toISOString(),
+        recoveryCodesRemaining: data.recoveryCodes.length,
+      })
+      setMessage({ text: 'Two-factor authentication is now enabled', type: 'success' })
+    }
+  }
+
+  const handleRegenerateCodes = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const data = await callTwoFactorApi('/api/admin/account/two-factor/recovery-codes', 'POST', { code })
+    if (data && status) {
+      setCode('')
+      setRecoveryCodes(data.recoveryCodes)
+      setStatus({ ...status, recoveryCodesRemaining: data.recoveryCodes.length })
+      setMessage({ text: 'New recovery codes generated. The old ones no longer work.', type: 'success' })
+    }
+  }
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const data = await callTwoFactorApi('/api/admin/account/two-factor', 'DELETE', { password })
+    if (data) {
+      setPassword('')
+      setRecoveryCodes([])
+      setStatus({ enabled: false, enabledAt: null, recoveryCodesRemaining: 0 })
+      setMessage({ text: 'Two-factor authentication has been turned off', type: 'success' })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="container">
+        <h1>ACCOUNT SECURITY</h1>
+        <p>Loading...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container">
+      <header className="flex justify-between items-center mb-8">
+        <h1>ACCOUNT SECURITY</h1>
+        <Link href="/admin/dashboard" className="tag">
+          Back to Dashboard
+        </Link>
+      </header>
+
+      {message.text && (
+        <div className={`brutalist-box p-3 ${message.type === 'error' ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {recoveryCodes.length > 0 && (
+        <div className="brutalist-box">
+          <h2>Recovery Codes</h2>
+          <p className="mb-4">
+            Store these somewhere safe. Each one signs you in once if you lose your authenticator.
+            They will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="brutalist-box space-y-4">
+        <h2>Two-Factor Authentication</h2>
+
+        {status?.enabled ? (
+          <>
+            <p>
+              Enabled since {new Date(status.enabledAt!).toLocaleDateString()}.{' '}
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+            </p>
+
+            <form onSubmit={handleRegenerateCodes} className="flex items-end gap-4">
+              <div>
+                <label className="block mb-2">Authentication Code</label>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                  placeholder="123456"
+                  inputMode="numeric"
+                  required
+                />
+                <FieldError message={fieldErrors.code} />
+              </div>
+              <button type="submit" disabled={working} className="tag">
+                Generate New Recovery Codes
+              </button>
+            </form>
+
+            <form onSubmit={handleDisable} className="flex items-end gap-4">
+              <div>
+                <label className="block mb-2">Current Password</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+                <FieldError message={fieldErrors.password} />
+              </div>
+              <button
+                type="submit"
+                disabled={working}
+                className="tag bg-red-600 text-white hover:bg-red-700 disabled:bg-red-800 disabled:cursor-not-allowed"
+              >
+                Turn Off Two-Factor
+              </button>
+            </form>
+          </>
+        ) : enrollment ? (
+          <form onSubmit={handleConfirmEnrollment} className="space-y-4">
+            <p>Scan this code with an authenticator app, then enter the 6-digit code it shows.</p>
+            <Image src={enrollment.qrCode} alt="Two-factor QR code" className="border-2 border-black" width={240} height={240} unoptimized />
+            <p className="text-sm">
+              Can&apos;t scan it? Enter this key manually:{' '}
+              <code className="font-mono break-all">{enrollment.secret}</code>
+            </p>
+            <div>
+              <label className="block mb-2">Authentication Code</label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+              />
+              <FieldError message={fieldErrors.code} />
+            </div>
+            <button
+              type="submit"
+              disabled={working}
+              className="tag bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed"
+            >
+              {working ? 'Verifying...' : 'Enable Two-Factor'}
+            </button>
+          </form>
+        ) : (
+          <>
+            <p>
+              Require a code from an authenticator app in addition to your password when signing in.
+            </p>
+            <button
+              onClick={handleStartEnrollment}
+              disabled={working}
+              className="tag bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed"
+            >
+              Set Up Two-Factor
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
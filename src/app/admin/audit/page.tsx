@@ -0,0 +1,271 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { adminFetch } from '@/lib/admin-fetch'
+import { DataTable } from '../../../../brutalist/interactive-components/Table'
+import { Pagination } from '../../../../brutalist/interactive-components/Pagination'
+
+type AuditAction = 'CREATE' | 'UPDATE' | 'PUBLISH' | 'UNPUBLISH' | 'DELETE'
+
+type AuditEvent = {
+  id: string
+  actorUsername: string
+  action: AuditAction
+  entityType: string
+  entityId: string
+  entityTitle: string | null
+  changes: Record<string, { from: unknown; to: unknown }> | null
+  createdAt: string
+}
+
+const ACTIONS: AuditAction[] = ['CREATE', 'UPDATE', 'PUBLISH', 'UNPUBLISH', 'DELETE']
+const ENTITY_TYPES = ['BlogPost', 'Project']
+const PAGE_SIZE = 25
+
+const ENTITY_LABELS: Record<string, string> = {
+  BlogPost: 'Thought',
+  Project: 'Project',
+}
+
+const ACTION_CLASSES: Record<AuditAction, string> = {
+  CREATE: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  PUBLISH: 'bg-yellow-100 text-yellow-800',
+  UNPUBLISH: 'bg-gray-100 text-gray-800',
+  DELETE: 'bg-red-100 text-red-800',
+}
+
+const ACTION_VERBS: Record<AuditAction, string> = {
+  CREATE: 'created',
+  UPDATE: 'updated',
+  PUBLISH: 'published',
+  UNPUBLISH: 'unpublished',
+  DELETE: 'deleted',
+}
+
+// Long values (content) are cut down so the details panel stays readable
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') {
+    return '—'
+  }
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text
+}
+
+export default function AuditLog() {
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [action, setAction] = useState('')
+  const [entityType, setEntityType] = useState('')
+  const [actor, setActor] = useState('')
+  const [actorFilter, setActorFilter] = useState('')
+  const [selected, setSelected] = useState<AuditEvent | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const router = useRouter()
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setLoading(true)
+      try {
+        const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) })
+        if (action) params.set('action', action)
+        if (entityType) params.set('entityType', entityType)
+        if (actorFilter) params.set('actor', actorFilter)
+
+        const response = await adminFetch(`/api/admin/audit?${params}`, {
+          credentials: 'include', // Include JWT cookie
+        })
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            // Redirect to login if unauthorized
+            router.push('/admin/login')
+            return
+          }
+          throw new Error(`Error: ${response.status}`)
+        }
+
+        const data = await response.json()
+        setEvents(data.events)
+        setTotal(data.total)
+        setError('')
+      } catch (err) {
+        setError('Failed to load the audit log')
+        console.error(err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchEvents()
+  }, [page, action, entityType, actorFilter, router])
+
+  // Any filter change starts again from the first page
+  const changeFilter = (update: () => void) => {
+    update()
+    setPage(1)
+    setSelected(null)
+  }
+
+  const handleActorSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    changeFilter(() => setActorFilter(actor.trim()))
+  }
+
+  return (
+    <div className="container">
+      <header className="flex justify-between items-center mb-8">
+        <h1>AUDIT LOG</h1>
+        <Link href="/admin/dashboard" className="tag">
+          Back to Dashboard
+        </Link>
+      </header>
+
+      <form onSubmit={handleActorSubmit} className="brutalist-box mb-8 grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <label className="block mb-2">Action</label>
+          <select
+            value={action}
+            onChange={(e) => changeFilter(() => setAction(e.target.value))}
+            className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All actions</option>
+            {ACTIONS.map((value) => (
+              <option key={value} value={value}>{value.toLowerCase()}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block mb-2">Content Type</label>
+          <select
+            value={entityType}
+            onChange={(e) => changeFilter(() => setEntityType(e.target.value))}
+            className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Everything</option>
+            {ENTITY_TYPES.map((value) => (
+              <option key={value} value={value}>{ENTITY_LABELS[value]}s</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block mb-2">User</label>
+          <input
+            type="text"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            onBlur={() => actor.trim() !== actorFilter && changeFilter(() => setActorFilter(actor.trim()))}
+            className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Username, then press Enter"
+          />
+        </div>
+      </form>
+
+      {error && (
+        <div className="brutalist-box p-3 bg-red-50 text-red-600 mb-8">{error}</div>
+      )}
+
+      <DataTable
+        data={events}
+        loading={loading}
+        keyField="id"
+        variant="bordered"
+        hoverable
+        onRowClick={(event) => setSelected(selected?.id === event.id ? null : event)}
+        emptyState={<p className="p-8 text-center font-mono">No changes recorded yet.</p>}
+        columns={[
+          {
+            id: 'createdAt',
+            header: 'When',
+            accessor: (event) => event.createdAt,
+            renderCell: (value) => new Date(value).toLocaleString(),
+          },
+          {
+            id: 'actor',
+            header: 'User',
+            accessor: (event) => event.actorUsername,
+          },
+          {
+            id: 'action',
+            header: 'Action',
+            accessor: (event) => event.action,
+            renderCell: (value: AuditAction) => (
+              <span className={`px-2 py-1 text-xs font-bold ${ACTION_CLASSES[value]}`}>
+                {value.toLowerCase()}
+              </span>
+            ),
+          },
+          {
+            id: 'entity',
+            header: 'Content',
+            accessor: (event) => event.entityTitle,
+            renderCell: (value, event) => (
+              <span>
+                <span className="text-gray-500">{ENTITY_LABELS[event.entityType] ?? event.entityType}:</span>{' '}
+                {value || event.entityId}
+              </span>
+            ),
+          },
+          {
+            id: 'changes',
+            header: 'Fields',
+            accessor: (event) => Object.keys(event.changes ?? {}).join(', '),
+          },
+        ]}
+      />
+
+      {total > PAGE_SIZE && (
+        <div className="mt-4 flex justify-center">
+          <Pagination
+            currentPage={page}
+            totalPages={Math.ceil(total / PAGE_SIZE)}
+            onPageChange={(nextPage) => {
+              setPage(nextPage)
+              setSelected(null)
+            }}
+            variant="bordered"
+          />
+        </div>
+      )}
+
+      {selected && (
+        <div className="brutalist-box mt-8">
+          <h2>
+            {selected.actorUsername} {ACTION_VERBS[selected.action]}{' '}
+            {selected.entityTitle || selected.entityId}
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">{new Date(selected.createdAt).toLocaleString()}</p>
+          {selected.changes && Object.keys(selected.changes).length > 0 ? (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-black text-left">
+                  <th className="py-2 pr-4">Field</th>
+                  <th className="py-2 pr-4">Before</th>
+                  <th className="py-2">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(selected.changes).map(([field, change]) => (
+                  <tr key={field} className="border-b border-gray-200 align-top">
+                    <td className="py-2 pr-4 font-bold">{field}</td>
+                    <td className="py-2 pr-4 text-red-700 whitespace-pre-wrap break-words">{formatValue(change.from)}</td>
+                    <td className="py-2 text-green-700 whitespace-pre-wrap break-words">{formatValue(change.to)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-600">No field changes recorded.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,330 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { adminFetch } from '@/lib/admin-fetch'
+import type { ModerationAction } from '@/types/comment'
+import { Pagination } from '../../../../brutalist/interactive-components/Pagination'
+
+type CommentStatus = 'PENDING' | 'APPROVED' | 'REJECTED'
+type Tab = CommentStatus | 'BANNED'
+
+type Comment = {
+  id: string
+  authorName: string
+  authorEmail: string
+  body: string
+  status: CommentStatus
+  ip: string | null
+  createdAt: string
+  moderatedAt: string | null
+  post: { title: string; slug: string }
+  parent: { authorName: string } | null
+  moderatedBy: { username: string } | null
+}
+
+type BannedEmail = {
+  id: string
+  email: string
+  createdAt: string
+  bannedBy: { username: string } | null
+}
+
+const TABS: { value: Tab; label: string }[] = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'REJECTED', label: 'Rejected' },
+  { value: 'BANNED', label: 'Banned Emails' },
+]
+const PAGE_SIZE = 25
+
+// What each bulk action does, for the confirmation prompt and status line
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  approve: 'approved',
+  reject: 'rejected',
+  ban: 'rejected and their authors banned',
+}
+
+export default function ModerateComments() {
+  const [tab, setTab] = useState<Tab>('PENDING')
+  const [comments, setComments] = useState<Comment[]>([])
+  const [banned, setBanned] = useState<BannedEmail[]>([])
+  const [total, setTotal] = useState(0)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [page, setPage] = useState(1)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState('')
+  const [status, setStatus] = useState('')
+  const router = useRouter()
+
+  const fetchComments = useCallback(async () => {
+    setLoading(true)
+    setSelectedIds([])
+    try {
+      const url = tab === 'BANNED'
+        ? '/api/admin/comments/banned'
+        : `/api/admin/comments?${new URLSearchParams({ status: tab, page: String(page), pageSize: String(PAGE_SIZE) })}`
+
+      const response = await adminFetch(url, {
+        credentials: 'include', // Include JWT cookie
+      })
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          // Redirect to login if unauthorized
+          router.push('/admin/login')
+          return
+        }
+        throw new Error(`Error: ${response.status}`)
+      }
+
+      const data = await response.json()
+      if (tab === 'BANNED') {
+        setBanned(data)
+      } else {
+        setComments(data.comments)
+        setTotal(data.total)
+        setPendingCount(data.pendingCount)
+      }
+      setError('')
+    } catch (err) {
+      setError('Failed to load comments')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [tab, page, router])
+
+  useEffect(() => {
+    fetchComments()
+  }, [fetchComments])
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(current => (current.includes(id) ? current.filter(other => other !== id) : [...current, id]))
+  }
+
+  const allSelected = comments.length > 0 && selectedIds.length === comments.length
+
+  const handleModerate = async (action: ModerationAction) => {
+    if (action === 'ban' && !confirm(`Ban the authors of ${selectedIds.length} comment(s)? Their other pending comments are rejected too, and new ones are dropped.`)) {
+      return
+    }
+
+    setWorking(true)
+    setStatus('')
+    try {
+      const response = await adminFetch('/api/admin/comments/moderate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // Include JWT cookie
+        body: JSON.stringify({ ids: selectedIds, action }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error: ${response.status}`)
+      }
+
+      setStatus(`${data.updated} comment${data.updated === 1 ? '' : 's'} ${ACTION_LABELS[action]}`)
+      fetchComments()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to moderate comments')
+      console.error(err)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleUnban = async (ban: BannedEmail) => {
+    if (!confirm(`Lift the ban on ${ban.email}?`)) {
+      return
+    }
+
+    try {
+      const response = await adminFetch(`/api/admin/comments/banned/${ban.id}`, {
+        method: 'DELETE',
+        credentials: 'include', // Include JWT cookie
+      })
+
+      if (!response.ok) {
+        throw new Error(`Error: ${response.status}`)
+      }
+
+      setBanned(current => current.filter(other => other.id !== ban.id))
+    } catch (err) {
+      setError('Failed to lift the ban')
+      console.error(err)
+    }
+  }
+
+  return (
+    <div className="container">
+      <header className="flex justify-between items-center mb-8">
+        <h1>COMMENTS</h1>
+        <Link href="/admin/dashboard" className="tag">
+          Back to Dashboard
+        </Link>
+      </header>
+
+      <div className="mb-8">
+        {TABS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => {
+              setTab(value)
+              setPage(1)
+              setStatus('')
+            }}
+            className={`tag ${tab === value ? 'bg-blue-600 text-white' : ''}`}
+          >
+            {label}
+            {value === 'PENDING' && pendingCount > 0 && ` (${pendingCount})`}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="brutalist-box p-3 bg-red-50 text-red-600 mb-8">{error}</div>
+      )}
+
+      {status && (
+        <div className="p-4 mb-8 rounded bg-green-100 text-green-700">{status}</div>
+      )}
+
+      {tab === 'BANNED' ? (
+        <div className="brutalist-box p-0">
+          {loading ? (
+            <p className="p-8 text-center">Loading...</p>
+          ) : banned.length === 0 ? (
+            <p className="p-8 text-center font-mono">No banned emails.</p>
+          ) : (
+            <ul>
+              {banned.map(ban => (
+                <li key={ban.id} className="flex justify-between items-center gap-4 p-4 border-b border-gray-200">
+                  <div>
+                    <p className="font-mono">{ban.email}</p>
+                    <p className="text-sm text-gray-500">
+                      Banned {new Date(ban.createdAt).toLocaleString()}
+                      {ban.bannedBy && ` by ${ban.bannedBy.username}`}
+                    </p>
+                  </div>
+                  <button onClick={() => handleUnban(ban)} className="tag">
+                    Lift Ban
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <label className="flex items-center gap-2 mr-4">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => setSelectedIds(allSelected ? [] : comments.map(comment => comment.id))}
+                disabled={comments.length === 0}
+              />
+              Select all
+            </label>
+            {tab !== 'APPROVED' && (
+              <button
+                onClick={() => handleModerate('approve')}
+                disabled={working || selectedIds.length === 0}
+                className="tag bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Approve
+              </button>
+            )}
+            {tab !== 'REJECTED' && (
+              <button
+                onClick={() => handleModerate('reject')}
+                disabled={working || selectedIds.length === 0}
+                className="tag disabled:opacity-50"
+              >
+                Reject
+              </button>
+            )}
+            <button
+              onClick={() => handleModerate('ban')}
+              disabled={working || selectedIds.length === 0}
+              className="tag bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              Ban Email
+            </button>
+            {selectedIds.length > 0 && (
+              <span className="text-sm text-gray-600">{selectedIds.length} selected</span>
+            )}
+          </div>
+
+          <div className="brutalist-box p-0">
+            {loading ? (
+              <p className="p-8 text-center">Loading...</p>
+            ) : comments.length === 0 ? (
+              <p className="p-8 text-center font-mono">
+                {tab === 'PENDING' ? 'Nothing waiting for moderation.' : 'No comments here.'}
+              </p>
+            ) : (
+              <ul>
+                {comments.map(comment => (
+                  <li key={comment.id} className="flex gap-4 p-4 border-b border-gray-200">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(comment.id)}
+                      onChange={() => toggleSelected(comment.id)}
+                      className="mt-1"
+                      aria-label={`Select the comment by ${comment.authorName}`}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap justify-between gap-x-4">
+                        <span>
+                          <span className="font-bold">{comment.authorName}</span>{' '}
+                          <span className="text-sm text-gray-600">&lt;{comment.authorEmail}&gt;</span>
+                        </span>
+                        <span className="text-sm text-gray-500 whitespace-nowrap">
+                          {new Date(comment.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        On{' '}
+                        <Link href={`/thoughts/${comment.post.slug}`} className="text-blue-600 hover:underline" target="_blank">
+                          {comment.post.title}
+                        </Link>
+                        {comment.parent && `, replying to ${comment.parent.authorName}`}
+                        {comment.ip && ` · ${comment.ip}`}
+                      </p>
+                      <p className="whitespace-pre-wrap break-words mt-2">{comment.body}</p>
+                      {comment.moderatedAt && (
+                        <p className="text-sm text-gray-500 mt-2">
+                          {comment.status === 'APPROVED' ? 'Approved' : 'Rejected'} {new Date(comment.moderatedAt).toLocaleString()}
+                          {comment.moderatedBy && ` by ${comment.moderatedBy.username}`}
+                        </p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {total > PAGE_SIZE && (
+            <div className="mt-4 flex justify-center">
+              <Pagination
+                currentPage={page}
+                totalPages={Math.ceil(total / PAGE_SIZE)}
+                onPageChange={setPage}
+                variant="bordered"
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -4,12 +4,53 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { BlogPost } from '@/types/blog'
+import { useCurrentAdmin } from '@/hooks/useCurrentAdmin'
+import { adminFetch } from '@/lib/admin-fetch'
 
 interface Stats {
   postsCount: number;
   projectsCount: number;
 }
 
+interface FailedLogin {
+  id: string;
+  username: string;
+  ip: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface AdminSession {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+// Turns a user agent string into something like "Firefox on macOS"
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) {
+    return 'Unknown device'
+  }
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser'
+
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS'
+
+  return `${browser} on ${os}`
+}
+
 // Define a simplified Project type since it's not exported from blog.ts
 interface Project {
   id: string;
@@ -19,10 +60,19 @@ interface Project {
 
 export default function AdminDashboard() {
   const router = useRouter()
+  const { admin, can } = useCurrentAdmin()
   const [loading, setLoading] = useState(true)
   const [stats, setStats] = useState<Stats>({ postsCount: 0, projectsCount: 0 })
   const [statsLoading, setStatsLoading] = useState(true)
   const [statsError, setStatsError] = useState<string | null>(null)
+  const [failedLogins, setFailedLogins] = useState<FailedLogin[]>([])
+  const [failedLast24h, setFailedLast24h] = useState(0)
+  const [sessions, setSessions] = useState<AdminSession[]>([])
+  const [unreadMessages, setUnreadMessages] = useState(0)
+  const [pendingComments, setPendingComments] = useState(0)
+  const canManageUsers = can('users:manage')
+  const canManageInbox = can('inbox:manage')
+  const canModerateComments = can('comments:moderate')
   
   // We're not using these yet, so we'll just remove them
   // const [recentPosts, setRecentPosts] = useState<BlogPost[]>([])
@@ -34,11 +84,11 @@ export default function AdminDashboard() {
       setStatsLoading(true)
       try {
         // Fetch thoughts stats
-        const thoughtsRes = await fetch('/api/admin/thoughts')
+        const thoughtsRes = await adminFetch('/api/admin/thoughts')
         const thoughtsData = await thoughtsRes.json()
         
         // Fetch projects stats
-        const projectsRes = await fetch('/api/admin/projects')
+        const projectsRes = await adminFetch('/api/admin/projects')
         const projectsData = await projectsRes.json()
         
         setStats({
@@ -58,10 +108,93 @@ export default function AdminDashboard() {
     fetchStats()
   }, [])
 
+  useEffect(() => {
+    // Failed logins are only visible to accounts that can manage users
+    if (!canManageUsers) {
+      return
+    }
+
+    adminFetch('/api/admin/login-attempts?limit=5')
+      .then(res => res.json())
+      .then(data => {
+        setFailedLogins(data.attempts || [])
+        setFailedLast24h(data.failedLast24h || 0)
+      })
+      .catch(error => console.error('Error fetching login attempts:', error))
+  }, [canManageUsers])
+
+  useEffect(() => {
+    if (!canManageInbox) {
+      return
+    }
+
+    adminFetch('/api/admin/inbox?pageSize=1')
+      .then(res => res.json())
+      .then(data => setUnreadMessages(data.unreadCount || 0))
+      .catch(error => console.error('Error fetching unread messages:', error))
+  }, [canManageInbox])
+
+  useEffect(() => {
+    if (!canModerateComments) {
+      return
+    }
+
+    adminFetch('/api/admin/comments?pageSize=1')
+      .then(res => res.json())
+      .then(data => setPendingComments(data.pendingCount || 0))
+      .catch(error => console.error('Error fetching pending comments:', error))
+  }, [canModerateComments])
+
+  useEffect(() => {
+    adminFetch('/api/admin/sessions')
+      .then(res => res.json())
+      .then(data => setSessions(Array.isArray(data) ? data : []))
+      .catch(error => console.error('Error fetching sessions:', error))
+  }, [])
+
+  const handleRevokeSession = async (session: AdminSession) => {
+    try {
+      const response = await adminFetch(`/api/admin/sessions/${session.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error(`Error: ${response.status}`)
+      }
+
+      // Revoking this device is the same as logging out
+      if (session.current) {
+        router.push('/admin/login')
+        return
+      }
+
+      setSessions(sessions.filter(s => s.id !== session.id))
+    } catch (error) {
+      console.error('Error revoking session:', error)
+    }
+  }
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out of every device, including this one?')) {
+      return
+    }
+
+    setLoading(true)
+    try {
+      await adminFetch('/api/admin/sessions', {
+        method: 'DELETE',
+      })
+      router.push('/admin/login')
+    } catch (error) {
+      console.error('Error signing out everywhere:', error)
+      setLoading(false)
+    }
+  }
+
   const handleLogout = async () => {
     setLoading(true)
     try {
-      await fetch('/api/admin/logout', {
+      await adminFetch('/api/admin/logout', {
         method: 'POST',
       })
       router.push('/admin/login')
@@ -87,7 +220,17 @@ export default function AdminDashboard() {
   return (
     <div className="container">
       <header className="flex justify-between items-center mb-8">
-        <h1>ADMIN DASHBOARD</h1>
+        <div>
+          <h1>ADMIN DASHBOARD</h1>
+          {admin && (
+            <p className="text-sm text-gray-600">
+              Signed in as {admin.username} ({admin.role.toLowerCase()}) ·{' '}
+              <Link href="/admin/account" className="text-blue-600 hover:underline">
+                Account security
+              </Link>
+            </p>
+          )}
+        </div>
         <button
           onClick={handleLogout}
           disabled={loading}
@@ -119,26 +262,121 @@ export default function AdminDashboard() {
           </div>
         </div>
 
-        <div className="brutalist-box">
-          <h2>Projects</h2>
-          <p className="mb-6">
-            Create and manage your project portfolio.
-          </p>
-          <div className="flex space-x-4">
-            <Link
-              href="/admin/projects/new"
-              className="tag bg-blue-600 text-white hover:bg-blue-700"
-            >
-              Create New Project
-            </Link>
-            <Link
-              href="/admin/projects"
-              className="tag"
-            >
-              Manage Projects
-            </Link>
+        {can('projects:manage') && (
+          <div className="brutalist-box">
+            <h2>Projects</h2>
+            <p className="mb-6">
+              Create and manage your project portfolio.
+            </p>
+            <div className="flex space-x-4">
+              <Link
+                href="/admin/projects/new"
+                className="tag bg-blue-600 text-white hover:bg-blue-700"
+              >
+                Create New Project
+              </Link>
+              <Link
+                href="/admin/projects"
+                className="tag"
+              >
+                Manage Projects
+              </Link>
+            </div>
           </div>
-        </div>
+        )}
+
+        {canManageInbox && (
+          <div className="brutalist-box">
+            <h2>Inbox</h2>
+            <p className="mb-6">
+              {unreadMessages > 0 ? (
+                <><span className="text-3xl text-blue-600">{unreadMessages}</span> unread message{unreadMessages === 1 ? '' : 's'} from the contact form.</>
+              ) : (
+                'Messages sent through the contact form.'
+              )}
+            </p>
+            <div className="flex space-x-4">
+              <Link
+                href="/admin/inbox"
+                className="tag"
+              >
+                Open Inbox
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {canModerateComments && (
+          <div className="brutalist-box">
+            <h2>Comments</h2>
+            <p className="mb-6">
+              {pendingComments > 0 ? (
+                <><span className="text-3xl text-blue-600">{pendingComments}</span> comment{pendingComments === 1 ? '' : 's'} waiting for approval.</>
+              ) : (
+                'Approve or reject reader comments on thoughts.'
+              )}
+            </p>
+            <div className="flex space-x-4">
+              <Link
+                href="/admin/comments"
+                className="tag"
+              >
+                Moderate Comments
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {can('mail:manage') && (
+          <div className="brutalist-box">
+            <h2>Mail</h2>
+            <p className="mb-6">
+              Check how notification emails are delivered and send a test message.
+            </p>
+            <div className="flex space-x-4">
+              <Link
+                href="/admin/mail"
+                className="tag"
+              >
+                Mail Settings
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {can('audit:view') && (
+          <div className="brutalist-box">
+            <h2>Audit Log</h2>
+            <p className="mb-6">
+              See who created, edited, published or deleted content.
+            </p>
+            <div className="flex space-x-4">
+              <Link
+                href="/admin/audit"
+                className="tag"
+              >
+                View Audit Log
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {can('users:manage') && (
+          <div className="brutalist-box">
+            <h2>Users</h2>
+            <p className="mb-6">
+              Add editors, disable accounts and reset passwords.
+            </p>
+            <div className="flex space-x-4">
+              <Link
+                href="/admin/users"
+                className="tag"
+              >
+                Manage Users
+              </Link>
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="mt-8 brutalist-box">
@@ -167,6 +405,71 @@ export default function AdminDashboard() {
           <div className="mt-4 text-gray-600">No statistics available</div>
         )}
       </div>
+
+      <div className="mt-8 brutalist-box">
+        <div className="flex justify-between items-center mb-4">
+          <h2>Active Sessions</h2>
+          <button
+            onClick={handleSignOutEverywhere}
+            disabled={loading}
+            className="tag bg-red-600 text-white hover:bg-red-700 disabled:bg-red-800 disabled:cursor-not-allowed"
+          >
+            Sign Out Everywhere
+          </button>
+        </div>
+        {sessions.length > 0 ? (
+          <ul className="space-y-2 text-sm">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex justify-between items-center border-b border-gray-200 pb-2">
+                <span>
+                  <strong>{describeDevice(session.userAgent)}</strong>
+                  {session.ip && <> from {session.ip}</>}
+                  {session.current && <span className="ml-2 tag">this device</span>}
+                </span>
+                <span className="flex items-center gap-4">
+                  <span className="text-gray-500">
+                    Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                  </span>
+                  <button
+                    onClick={() => handleRevokeSession(session)}
+                    className="text-red-600 hover:underline"
+                  >
+                    {session.current ? 'Sign out' : 'Revoke'}
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No active sessions found.</p>
+        )}
+      </div>
+
+      {canManageUsers && (
+        <div className="mt-8 brutalist-box">
+          <h2>Failed Logins</h2>
+          <p className="mb-4">
+            <span className="text-3xl text-red-600">{failedLast24h}</span> in the last 24 hours
+          </p>
+          {failedLogins.length > 0 ? (
+            <ul className="space-y-2 text-sm">
+              {failedLogins.map((attempt) => (
+                <li key={attempt.id} className="flex justify-between border-b border-gray-200 pb-2">
+                  <span>
+                    <strong>{attempt.username}</strong> from {attempt.ip}
+                    {attempt.reason && attempt.reason !== 'invalid_credentials' && (
+                      <span className="ml-2 tag">{attempt.reason.replace('_', ' ')}</span>
+                    )}
+                  </span>
+                  <span className="text-gray-500">{new Date(attempt.createdAt).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-600">No failed login attempts recorded.</p>
+          )}
+        </div>
+      )}
     </div>
   )
 } 
\ No newline at end of file
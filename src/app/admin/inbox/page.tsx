@@ -0,0 +1,269 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { adminFetch } from '@/lib/admin-fetch'
+import { Pagination } from '../../../../brutalist/interactive-components/Pagination'
+
+type Folder = 'inbox' | 'starred' | 'archived'
+
+type ContactMessage = {
+  id: string
+  name: string
+  email: string
+  message: string
+  readAt: string | null
+  starred: boolean
+  archivedAt: string | null
+  createdAt: string
+}
+
+type MessageFlags = { read?: boolean; starred?: boolean; archived?: boolean }
+
+const FOLDERS: { value: Folder; label: string }[] = [
+  { value: 'inbox', label: 'Inbox' },
+  { value: 'starred', label: 'Starred' },
+  { value: 'archived', label: 'Archived' },
+]
+const PAGE_SIZE = 25
+
+// First line of the message, for the list
+function preview(text: string) {
+  const line = text.trim().split('\n')[0]
+  return line.length > 120 ? `${line.slice(0, 120)}…` : line
+}
+
+export default function AdminInbox() {
+  const [messages, setMessages] = useState<ContactMessage[]>([])
+  const [total, setTotal] = useState(0)
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [folder, setFolder] = useState<Folder>('inbox')
+  const [page, setPage] = useState(1)
+  const [selected, setSelected] = useState<ContactMessage | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const router = useRouter()
+
+  const fetchMessages = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ folder, page: String(page), pageSize: String(PAGE_SIZE) })
+      const response = await adminFetch(`/api/admin/inbox?${params}`, {
+        credentials: 'include', // Include JWT cookie
+      })
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          // Redirect to login if unauthorized
+          router.push('/admin/login')
+          return
+        }
+        throw new Error(`Error: ${response.status}`)
+      }
+
+      const data = await response.json()
+      setMessages(data.messages)
+      setTotal(data.total)
+      setUnreadCount(data.unreadCount)
+      setError('')
+    } catch (err) {
+      setError('Failed to load messages')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [folder, page, router])
+
+  useEffect(() => {
+    fetchMessages()
+  }, [fetchMessages])
+
+  const updateMessage = async (message: ContactMessage, flags: MessageFlags) => {
+    try {
+      const response = await adminFetch(`/api/admin/inbox/${message.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(flags),
+        credentials: 'include', // Include JWT cookie
+      })
+
+      if (!response.ok) {
+        throw new Error(`Error: ${response.status}`)
+      }
+
+      const updated: ContactMessage = await response.json()
+      setSelected(current => (current?.id === updated.id ? updated : current))
+
+      // Archiving or unstarring can move the message out of this folder
+      if (flags.archived !== undefined || (folder === 'starred' && flags.starred === false)) {
+        setSelected(null)
+        fetchMessages()
+        return
+      }
+
+      setMessages(current => current.map(m => (m.id === updated.id ? updated : m)))
+
+      // The unread count only covers the inbox
+      if (!updated.archivedAt) {
+        setUnreadCount(count => count + Number(!updated.readAt) - Number(!message.readAt))
+      }
+    } catch (err) {
+      setError('Failed to update the message')
+      console.error(err)
+    }
+  }
+
+  const handleOpen = (message: ContactMessage) => {
+    if (selected?.id === message.id) {
+      setSelected(null)
+      return
+    }
+
+    setSelected(message)
+    if (!message.readAt) {
+      updateMessage(message, { read: true })
+    }
+  }
+
+  const handleDelete = async (message: ContactMessage) => {
+    if (!confirm(`Delete the message from ${message.name}? This cannot be undone.`)) {
+      return
+    }
+
+    try {
+      const response = await adminFetch(`/api/admin/inbox/${message.id}`, {
+        method: 'DELETE',
+        credentials: 'include', // Include JWT cookie
+      })
+
+      if (!response.ok) {
+        throw new Error(`Error: ${response.status}`)
+      }
+
+      setSelected(null)
+      fetchMessages()
+    } catch (err) {
+      setError('Failed to delete the message')
+      console.error(err)
+    }
+  }
+
+  return (
+    <div className="container">
+      <header className="flex justify-between items-center mb-8">
+        <h1>INBOX</h1>
+        <Link href="/admin/dashboard" className="tag">
+          Back to Dashboard
+        </Link>
+      </header>
+
+      <div className="mb-8">
+        {FOLDERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => {
+              setFolder(value)
+              setPage(1)
+              setSelected(null)
+            }}
+            className={`tag ${folder === value ? 'bg-blue-600 text-white' : ''}`}
+          >
+            {label}
+            {value === 'inbox' && unreadCount > 0 && ` (${unreadCount})`}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="brutalist-box p-3 bg-red-50 text-red-600 mb-8">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="brutalist-box p-0">
+          {loading ? (
+            <p className="p-8 text-center">Loading...</p>
+          ) : messages.length === 0 ? (
+            <p className="p-8 text-center font-mono">No messages here.</p>
+          ) : (
+            <ul>
+              {messages.map((message) => (
+                <li key={message.id}>
+                  <button
+                    onClick={() => handleOpen(message)}
+                    className={`w-full text-left p-4 border-b border-gray-200 hover:bg-gray-50 ${
+                      selected?.id === message.id ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <div className="flex justify-between gap-4">
+                      <span className={message.readAt ? '' : 'font-bold'}>
+                        {message.starred && <span className="text-yellow-500 mr-1">★</span>}
+                        {message.name}
+                      </span>
+                      <span className="text-sm text-gray-500 whitespace-nowrap">
+                        {new Date(message.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className={`text-sm truncate ${message.readAt ? 'text-gray-500' : 'text-gray-800'}`}>
+                      {preview(message.message)}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {selected ? (
+          <div className="brutalist-box">
+            <h2>{selected.name}</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              <a href={`mailto:${selected.email}`} className="text-blue-600 hover:underline">
+                {selected.email}
+              </a>{' '}
+              · {new Date(selected.createdAt).toLocaleString()}
+            </p>
+            <p className="whitespace-pre-wrap break-words mb-6">{selected.message}</p>
+            <div className="flex flex-wrap gap-2">
+              <a href={`mailto:${selected.email}?subject=${encodeURIComponent('Re: your message')}`} className="tag bg-blue-600 text-white hover:bg-blue-700">
+                Reply
+              </a>
+              <button onClick={() => updateMessage(selected, { starred: !selected.starred })} className="tag">
+                {selected.starred ? 'Unstar' : 'Star'}
+              </button>
+              <button onClick={() => updateMessage(selected, { read: !selected.readAt })} className="tag">
+                {selected.readAt ? 'Mark Unread' : 'Mark Read'}
+              </button>
+              <button onClick={() => updateMessage(selected, { archived: !selected.archivedAt })} className="tag">
+                {selected.archivedAt ? 'Move to Inbox' : 'Archive'}
+              </button>
+              <button onClick={() => handleDelete(selected)} className="tag bg-red-600 text-white hover:bg-red-700">
+                Delete
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="brutalist-box text-gray-600">
+            Select a message to read it.
+          </div>
+        )}
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="mt-4 flex justify-center">
+          <Pagination
+            currentPage={page}
+            totalPages={Math.ceil(total / PAGE_SIZE)}
+            onPageChange={(nextPage) => {
+              setPage(nextPage)
+              setSelected(null)
+            }}
+            variant="bordered"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,10 +9,13 @@ export default function AdminLogin() {
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
+  // Set once the password is accepted for an account with two-factor enabled
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
   const router = useRouter()
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const submitLogin = async (payload: Record<string, string>) => {
     setError('')
     setLoading(true)
 
@@ -22,67 +25,155 @@ export default function AdminLogin() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          username,
-          password,
-        }),
+        body: JSON.stringify(payload),
       })
 
-      if (response.ok) {
-        router.push('/admin/dashboard')
-      } else {
-        const data = await response.json()
+      const data = await response.json()
+
+      if (!response.ok) {
         setError(data.error || 'Login failed')
+
+        // The challenge expired, start over from the password step
+        if (data.challengeExpired) {
+          setChallengeToken(null)
+        }
+        return
+      }
+
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken)
+        setPassword('')
+        return
       }
-    } catch (error) {
+
+      router.push('/admin/dashboard')
+    } catch {
       setError('An unexpected error occurred')
     } finally {
       setLoading(false)
     }
   }
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await submitLogin({ username, password })
+  }
+
+  const handleSecondFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await submitLogin(
+      useRecoveryCode
+        ? { challengeToken: challengeToken!, recoveryCode: code }
+        : { challengeToken: challengeToken!, code }
+    )
+    setCode('')
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="max-w-md w-full brutalist-box">
         <h1 className="text-3xl font-bold mb-6 text-center">ADMIN LOGIN</h1>
         
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {error && (
-            <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">
-              {error}
+        {challengeToken ? (
+          <form onSubmit={handleSecondFactorSubmit} className="space-y-6">
+            {error && (
+              <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block mb-2">
+                {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+              </label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono tracking-widest"
+                placeholder={useRecoveryCode ? 'xxxx-xxxx-xxxx' : '123456'}
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                required
+              />
+              <p className="text-gray-500 text-sm mt-1">
+                {useRecoveryCode
+                  ? 'Each recovery code can only be used once.'
+                  : 'Enter the 6-digit code from your authenticator app.'}
+              </p>
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full tag bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? 'Verifying...' : 'Verify'}
+            </button>
+
+            <div className="flex justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode)
+                  setCode('')
+                }}
+                className="text-blue-600 hover:underline"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setChallengeToken(null)
+                  setError('')
+                }}
+                className="text-gray-600 hover:underline"
+              >
+                Start over
+              </button>
             </div>
-          )}
-
-          <div>
-            <label className="block mb-2">Username</label>
-            <input
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              required
-            />
-          </div>
-
-          <div>
-            <label className="block mb-2">Password</label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              required
-            />
-          </div>
-
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full tag bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed transition-colors"
-          >
-            {loading ? 'Logging in...' : 'Login'}
-          </button>
-        </form>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block mb-2">Username</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block mb-2">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full tag bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? 'Logging in...' : 'Login'}
+            </button>
+          </form>
+        )}
 
         <div className="mt-4 text-center">
           <Link href="/" className="text-blue-600 hover:underline">
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { adminFetch } from '@/lib/admin-fetch'
+import type { FieldErrors } from '@/lib/validation'
+import FieldError from '@/components/admin/FieldError'
+
+type MailSettings = {
+  transport: string
+  settings: Record<string, string>
+  from: string
+  notifyTo: string | null
+}
+
+const TRANSPORT_LABELS: Record<string, string> = {
+  smtp: 'SMTP',
+  file: 'File (.eml)',
+  console: 'Console (server log)',
+}
+
+export default function MailSettingsPage() {
+  const [settings, setSettings] = useState<MailSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [to, setTo] = useState('')
+  const [sending, setSending] = useState(false)
+  const [status, setStatus] = useState({ message: '', type: '' })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  const router = useRouter()
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await adminFetch('/api/admin/mail', {
+          credentials: 'include', // Include JWT cookie
+        })
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            // Redirect to login if unauthorized
+            router.push('/admin/login')
+            return
+          }
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error || `Error: ${response.status}`)
+        }
+
+        const data: MailSettings = await response.json()
+        setSettings(data)
+        setTo(data.notifyTo ?? '')
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load mail settings')
+        console.error(err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSettings()
+  }, [router])
+
+  const handleSendTest = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSending(true)
+    setStatus({ message: '', type: '' })
+    setFieldErrors({})
+
+    try {
+      const response = await adminFetch('/api/admin/mail/test', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // Include JWT cookie
+        body: JSON.stringify({ to }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
+        setStatus({ message: data.error || 'Error sending test message', type: 'error' })
+        return
+      }
+
+      setStatus({ message: `Test message sent to ${to}`, type: 'success' })
+    } catch (err) {
+      console.error('Error sending test message:', err)
+      setStatus({ message: 'An unexpected error occurred', type: 'error' })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Mail</h1>
+        <Link href="/admin/dashboard" className="tag">
+          Back to Dashboard
+        </Link>
+      </div>
+
+      {loading ? (
+        <p className="text-center">Loading...</p>
+      ) : error ? (
+        <div className="brutalist-box p-3 bg-red-50 text-red-600">{error}</div>
+      ) : settings && (
+        <>
+          <div className="brutalist-box mb-8">
+            <h2>Delivery</h2>
+            <dl className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-x-6 gap-y-2 font-mono text-sm">
+              <dt className="font-bold">Transport</dt>
+              <dd>{TRANSPORT_LABELS[settings.transport] ?? settings.transport}</dd>
+              {Object.entries(settings.settings).map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="font-bold">{label}</dt>
+                  <dd className="break-all">{value}</dd>
+                </div>
+              ))}
+              <dt className="font-bold">From</dt>
+              <dd className="break-all">{settings.from}</dd>
+              <dt className="font-bold">Notifications to</dt>
+              <dd className="break-all">{settings.notifyTo ?? 'not set, no notifications are sent'}</dd>
+            </dl>
+            <p className="text-gray-500 text-sm mt-4">
+              Configured through environment variables (MAIL_TRANSPORT, SMTP_*, MAIL_FROM, MAIL_NOTIFY_TO). Restart the server after changing them.
+            </p>
+          </div>
+
+          <form onSubmit={handleSendTest} className="brutalist-box mb-8 space-y-4">
+            <h2>Send a Test Message</h2>
+            <div>
+              <label className="block mb-2">Recipient</label>
+              <input
+                type="email"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="you@example.com"
+                required
+              />
+              <FieldError message={fieldErrors.to} />
+            </div>
+            <button
+              type="submit"
+              disabled={sending}
+              className="tag bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed"
+            >
+              {sending ? 'Sending...' : 'Send Test'}
+            </button>
+          </form>
+
+          {status.message && (
+            <div
+              className={`p-4 mb-8 rounded ${
+                status.type === 'error' ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+              }`}
+            >
+              {status.message}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
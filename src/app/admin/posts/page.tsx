@@ -1,5 +1,6 @@
 'use client'
 import { useState } from 'react'
+import { adminFetch } from '@/lib/admin-fetch'
 
 export default function AdminPosts() {
   const [title, setTitle] = useState('')
@@ -9,7 +10,7 @@ export default function AdminPosts() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     try {
-      const response = await fetch('/api/admin/posts', {
+      const response = await adminFetch('/api/admin/posts', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
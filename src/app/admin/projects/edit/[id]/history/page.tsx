@@ -0,0 +1,23 @@
+'use client'
+
+import RevisionHistory from '@/components/admin/RevisionHistory'
+
+export default function ProjectHistory({ params }: { params: { id: string } }) {
+  return (
+    <RevisionHistory
+      apiBase={`/api/admin/projects/${params.id}`}
+      backHref={`/admin/projects/edit/${params.id}`}
+      title="PROJECT HISTORY"
+      fields={{
+        title: 'Title',
+        description: 'Description',
+        technologies: 'Technologies',
+        imageUrl: 'Image URL',
+        repoUrl: 'Repository URL',
+        demoUrl: 'Demo URL',
+        content: 'Content',
+      }}
+      markdownFields={['description', 'content']}
+    />
+  )
+}
@@ -3,6 +3,11 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { adminFetch } from '@/lib/admin-fetch'
+import type { FieldErrors } from '@/lib/validation'
+import FieldError from '@/components/admin/FieldError'
+import DateTimeField from '@/components/admin/DateTimeField'
+import PreviewLinkPanel from '@/components/admin/PreviewLinkPanel'
 
 type Project = {
   id: string
@@ -15,6 +20,8 @@ type Project = {
   demoUrl: string | null
   featured: boolean
   published: boolean
+  publishAt: string | null
+  unpublishAt: string | null
 }
 
 export default function EditProject({ params }: { params: { id: string } }) {
@@ -28,15 +35,18 @@ export default function EditProject({ params }: { params: { id: string } }) {
   const [demoUrl, setDemoUrl] = useState('')
   const [featured, setFeatured] = useState(false)
   const [published, setPublished] = useState(false)
+  const [publishAt, setPublishAt] = useState<Date | null>(null)
+  const [unpublishAt, setUnpublishAt] = useState<Date | null>(null)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [status, setStatus] = useState({ message: '', type: '' })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
   const router = useRouter()
 
   useEffect(() => {
     const fetchProject = async () => {
       try {
-        const response = await fetch(`/api/admin/projects/${params.id}`, {
+        const response = await adminFetch(`/api/admin/projects/${params.id}`, {
           credentials: 'include', // Include JWT cookie
         })
 
@@ -62,6 +72,8 @@ export default function EditProject({ params }: { params: { id: string } }) {
         setDemoUrl(data.demoUrl || '')
         setFeatured(data.featured || false)
         setPublished(data.published || false)
+        setPublishAt(data.publishAt ? new Date(data.publishAt) : null)
+        setUnpublishAt(data.unpublishAt ? new Date(data.unpublishAt) : null)
       } catch (err) {
         console.error('Error fetching project:', err)
         setStatus({ message: 'Failed to load project', type: 'error' })
@@ -77,33 +89,15 @@ export default function EditProject({ params }: { params: { id: string } }) {
     e.preventDefault()
     setSaving(true)
     setStatus({ message: '', type: '' })
+    setFieldErrors({})
 
     try {
-      // Form validation
-      if (!title.trim()) {
-        setStatus({ message: 'Title is required', type: 'error' })
-        setSaving(false)
-        return
-      }
-
-      if (!description.trim()) {
-        setStatus({ message: 'Description is required', type: 'error' })
-        setSaving(false)
-        return
-      }
-
-      if (!content.trim()) {
-        setStatus({ message: 'Content is required', type: 'error' })
-        setSaving(false)
-        return
-      }
-
       const formattedTechnologies = technologies
         .split(',')
         .map(tech => tech.trim())
         .filter(tech => tech.length > 0)
 
-      const response = await fetch(`/api/admin/projects/${params.id}`, {
+      const response = await adminFetch(`/api/admin/projects/${params.id}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -114,10 +108,12 @@ export default function EditProject({ params }: { params: { id: string } }) {
           description,
           content,
           technologies: formattedTechnologies,
-          repoUrl: githubUrl || undefined,
-          demoUrl: demoUrl || undefined,
+          repoUrl: githubUrl,
+          demoUrl,
           featured,
           published,
+          publishAt: publishAt?.toISOString() ?? null,
+          unpublishAt: unpublishAt?.toISOString() ?? null,
         }),
       })
 
@@ -137,6 +133,7 @@ export default function EditProject({ params }: { params: { id: string } }) {
         }
         
         const data = await response.json()
+        setFieldErrors(data.fieldErrors || {})
         setStatus({ message: data.error || 'Error updating project', type: 'error' })
       }
     } catch (error) {
@@ -182,6 +179,7 @@ export default function EditProject({ params }: { params: { id: string } }) {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="Project title"
           />
+          <FieldError message={fieldErrors.title} />
         </div>
 
         <div>
@@ -192,6 +190,7 @@ export default function EditProject({ params }: { params: { id: string } }) {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 h-20"
             placeholder="Brief description of your project"
           />
+          <FieldError message={fieldErrors.description} />
         </div>
 
         <div>
@@ -202,6 +201,7 @@ export default function EditProject({ params }: { params: { id: string } }) {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 h-64"
             placeholder="Detailed information about your project"
           />
+          <FieldError message={fieldErrors.content} />
           <p className="text-gray-500 text-sm mt-1">Markdown supported</p>
         </div>
 
@@ -224,6 +224,7 @@ export default function EditProject({ params }: { params: { id: string } }) {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="React, Node.js, MongoDB"
           />
+          <FieldError message={fieldErrors.technologies} />
           <p className="text-gray-500 text-sm mt-1">Comma separated list</p>
         </div>
 
@@ -237,6 +238,7 @@ export default function EditProject({ params }: { params: { id: string } }) {
               className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder="https://github.com/username/repo"
             />
+            <FieldError message={fieldErrors.repoUrl} />
           </div>
 
           <div>
@@ -248,6 +250,7 @@ export default function EditProject({ params }: { params: { id: string } }) {
               className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder="https://example.com"
             />
+            <FieldError message={fieldErrors.demoUrl} />
           </div>
         </div>
 
@@ -275,6 +278,22 @@ export default function EditProject({ params }: { params: { id: string } }) {
           </div>
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <DateTimeField
+            label="Publish At (Optional)"
+            value={publishAt}
+            onChange={setPublishAt}
+            error={fieldErrors.publishAt}
+            hint="A published project stays hidden until this time"
+          />
+          <DateTimeField
+            label="Unpublish At (Optional)"
+            value={unpublishAt}
+            onChange={setUnpublishAt}
+            error={fieldErrors.unpublishAt}
+          />
+        </div>
+
         <div className="flex items-center gap-4 pt-4">
           <button
             type="submit"
@@ -291,6 +310,12 @@ export default function EditProject({ params }: { params: { id: string } }) {
           >
             Cancel
           </Link>
+          <Link
+            href={`/admin/projects/edit/${params.id}/history`}
+            className="ml-auto text-gray-600 hover:text-gray-800"
+          >
+            History
+          </Link>
         </div>
 
         {status.message && (
@@ -303,6 +328,8 @@ export default function EditProject({ params }: { params: { id: string } }) {
           </div>
         )}
       </form>
+
+      <PreviewLinkPanel apiBase={`/api/admin/projects/${params.id}`} />
     </div>
   )
 } 
\ No newline at end of file
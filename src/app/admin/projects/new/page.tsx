@@ -3,6 +3,10 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { adminFetch } from '@/lib/admin-fetch'
+import type { FieldErrors } from '@/lib/validation'
+import FieldError from '@/components/admin/FieldError'
+import DateTimeField from '@/components/admin/DateTimeField'
 
 export default function NewProject() {
   const [title, setTitle] = useState('')
@@ -14,41 +18,26 @@ export default function NewProject() {
   const [demoUrl, setDemoUrl] = useState('')
   const [featured, setFeatured] = useState(false)
   const [published, setPublished] = useState(false)
+  const [publishAt, setPublishAt] = useState<Date | null>(null)
+  const [unpublishAt, setUnpublishAt] = useState<Date | null>(null)
   const [loading, setLoading] = useState(false)
   const [status, setStatus] = useState({ message: '', type: '' })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
   const router = useRouter()
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
     setStatus({ message: '', type: '' })
+    setFieldErrors({})
 
     try {
-      // Form validation
-      if (!title.trim()) {
-        setStatus({ message: 'Title is required', type: 'error' })
-        setLoading(false)
-        return
-      }
-
-      if (!description.trim()) {
-        setStatus({ message: 'Description is required', type: 'error' })
-        setLoading(false)
-        return
-      }
-
-      if (!content.trim()) {
-        setStatus({ message: 'Content is required', type: 'error' })
-        setLoading(false)
-        return
-      }
-
       const formattedTechnologies = technologies
         .split(',')
         .map(tech => tech.trim())
         .filter(tech => tech.length > 0)
 
-      const response = await fetch('/api/admin/projects', {
+      const response = await adminFetch('/api/admin/projects', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -59,10 +48,12 @@ export default function NewProject() {
           description,
           content,
           technologies: formattedTechnologies,
-          repoUrl: githubUrl || undefined,
-          demoUrl: demoUrl || undefined,
+          repoUrl: githubUrl,
+          demoUrl,
           featured,
           published,
+          publishAt: publishAt?.toISOString() ?? null,
+          unpublishAt: unpublishAt?.toISOString() ?? null,
         }),
       })
 
@@ -82,6 +73,7 @@ export default function NewProject() {
         }
         
         const data = await response.json()
+        setFieldErrors(data.fieldErrors || {})
         setStatus({ message: data.error || 'Error creating project', type: 'error' })
       }
     } catch (error) {
@@ -106,6 +98,7 @@ export default function NewProject() {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="Project title"
           />
+          <FieldError message={fieldErrors.title} />
         </div>
 
         <div>
@@ -116,6 +109,7 @@ export default function NewProject() {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 h-20"
             placeholder="Brief description of your project"
           />
+          <FieldError message={fieldErrors.description} />
         </div>
 
         <div>
@@ -126,6 +120,7 @@ export default function NewProject() {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 h-64"
             placeholder="Detailed information about your project"
           />
+          <FieldError message={fieldErrors.content} />
           <p className="text-gray-500 text-sm mt-1">Markdown supported</p>
         </div>
 
@@ -148,6 +143,7 @@ export default function NewProject() {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="React, Node.js, MongoDB"
           />
+          <FieldError message={fieldErrors.technologies} />
           <p className="text-gray-500 text-sm mt-1">Comma separated list</p>
         </div>
 
@@ -161,6 +157,7 @@ export default function NewProject() {
               className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder="https://github.com/username/repo"
             />
+            <FieldError message={fieldErrors.repoUrl} />
           </div>
 
           <div>
@@ -172,6 +169,7 @@ export default function NewProject() {
               className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
               placeholder="https://example.com"
             />
+            <FieldError message={fieldErrors.demoUrl} />
           </div>
         </div>
 
@@ -199,6 +197,22 @@ export default function NewProject() {
           </div>
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <DateTimeField
+            label="Publish At (Optional)"
+            value={publishAt}
+            onChange={setPublishAt}
+            error={fieldErrors.publishAt}
+            hint="A published project stays hidden until this time"
+          />
+          <DateTimeField
+            label="Unpublish At (Optional)"
+            value={unpublishAt}
+            onChange={setUnpublishAt}
+            error={fieldErrors.unpublishAt}
+          />
+        </div>
+
         <div className="flex items-center gap-4 pt-4">
           <button
             type="submit"
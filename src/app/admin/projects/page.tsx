@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import { adminFetch } from '@/lib/admin-fetch'
+import ScheduleBadge from '@/components/admin/ScheduleBadge'
 
 type Project = {
   id: string
@@ -13,6 +15,8 @@ type Project = {
   technologies: string[]
   featured: boolean
   published: boolean
+  publishAt: string | null
+  unpublishAt: string | null
   createdAt: string
 }
 
@@ -25,7 +29,7 @@ export default function ManageProjects() {
   useEffect(() => {
     const fetchProjects = async () => {
       try {
-        const response = await fetch('/api/admin/projects', {
+        const response = await adminFetch('/api/admin/projects', {
           credentials: 'include', // Include JWT cookie
         })
 
@@ -57,7 +61,7 @@ export default function ManageProjects() {
     }
 
     try {
-      const response = await fetch(`/api/admin/projects/${id}`, {
+      const response = await adminFetch(`/api/admin/projects/${id}`, {
         method: 'DELETE',
         credentials: 'include', // Include JWT cookie
       })
@@ -76,7 +80,7 @@ export default function ManageProjects() {
 
   const handleTogglePublish = async (id: string, currentStatus: boolean) => {
     try {
-      const response = await fetch(`/api/admin/projects/${id}`, {
+      const response = await adminFetch(`/api/admin/projects/${id}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -105,7 +109,7 @@ export default function ManageProjects() {
 
   const handleToggleFeatured = async (id: string, currentStatus: boolean) => {
     try {
-      const response = await fetch(`/api/admin/projects/${id}`, {
+      const response = await adminFetch(`/api/admin/projects/${id}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -215,15 +219,7 @@ export default function ManageProjects() {
                     </span>
                   </td>
                   <td className="py-3 px-6 text-center">
-                    <span
-                      className={`px-3 py-1 rounded-full text-xs ${
-                        project.published
-                          ? 'bg-green-200 text-green-800'
-                          : 'bg-gray-200 text-gray-800'
-                      }`}
-                    >
-                      {project.published ? 'Published' : 'Draft'}
-                    </span>
+                    <ScheduleBadge item={project} />
                   </td>
                   <td className="py-3 px-6 text-center">
                     {new Date(project.createdAt).toLocaleDateString()}
@@ -0,0 +1,20 @@
+'use client'
+
+import RevisionHistory from '@/components/admin/RevisionHistory'
+
+export default function ThoughtHistory({ params }: { params: { id: string } }) {
+  return (
+    <RevisionHistory
+      apiBase={`/api/admin/thoughts/${params.id}`}
+      backHref={`/admin/thoughts/edit/${params.id}`}
+      title="THOUGHT HISTORY"
+      fields={{
+        title: 'Title',
+        excerpt: 'Excerpt',
+        tags: 'Tags',
+        content: 'Content',
+      }}
+      markdownFields={['content']}
+    />
+  )
+}
@@ -3,6 +3,13 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { useCurrentAdmin } from '@/hooks/useCurrentAdmin'
+import { adminFetch } from '@/lib/admin-fetch'
+import type { FieldErrors } from '@/lib/validation'
+import FieldError from '@/components/admin/FieldError'
+import DateTimeField from '@/components/admin/DateTimeField'
+import PreviewLinkPanel from '@/components/admin/PreviewLinkPanel'
+import NewsletterPanel from '@/components/admin/NewsletterPanel'
 
 type Thought = {
   id: string
@@ -11,6 +18,8 @@ type Thought = {
   excerpt: string | null
   tags: string[]
   published: boolean
+  publishAt: string | null
+  unpublishAt: string | null
 }
 
 export default function EditThought({ params }: { params: { id: string } }) {
@@ -20,15 +29,19 @@ export default function EditThought({ params }: { params: { id: string } }) {
   const [excerpt, setExcerpt] = useState('')
   const [tags, setTags] = useState('')
   const [published, setPublished] = useState(false)
+  const [publishAt, setPublishAt] = useState<Date | null>(null)
+  const [unpublishAt, setUnpublishAt] = useState<Date | null>(null)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [status, setStatus] = useState({ message: '', type: '' })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
   const router = useRouter()
+  const { can } = useCurrentAdmin()
 
   useEffect(() => {
     const fetchThought = async () => {
       try {
-        const response = await fetch(`/api/admin/thoughts/${params.id}`, {
+        const response = await adminFetch(`/api/admin/thoughts/${params.id}`, {
           credentials: 'include', // Include JWT cookie
         })
 
@@ -50,6 +63,8 @@ export default function EditThought({ params }: { params: { id: string } }) {
         setExcerpt(data.excerpt || '')
         setTags(data.tags?.join(', ') || '')
         setPublished(data.published || false)
+        setPublishAt(data.publishAt ? new Date(data.publishAt) : null)
+        setUnpublishAt(data.unpublishAt ? new Date(data.unpublishAt) : null)
       } catch (err) {
         console.error('Error fetching thought:', err)
         setStatus({ message: 'Failed to load thought', type: 'error' })
@@ -65,27 +80,15 @@ export default function EditThought({ params }: { params: { id: string } }) {
     e.preventDefault()
     setSaving(true)
     setStatus({ message: '', type: '' })
+    setFieldErrors({})
 
     try {
-      // Form validation
-      if (!title.trim()) {
-        setStatus({ message: 'Title is required', type: 'error' })
-        setSaving(false)
-        return
-      }
-
-      if (!content.trim()) {
-        setStatus({ message: 'Content is required', type: 'error' })
-        setSaving(false)
-        return
-      }
-
       const formattedTags = tags
         .split(',')
         .map(tag => tag.trim())
         .filter(tag => tag.length > 0)
 
-      const response = await fetch(`/api/admin/thoughts/${params.id}`, {
+      const response = await adminFetch(`/api/admin/thoughts/${params.id}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -94,9 +97,11 @@ export default function EditThought({ params }: { params: { id: string } }) {
         body: JSON.stringify({
           title,
           content,
-          excerpt: excerpt || undefined,
+          excerpt,
           tags: formattedTags,
           published,
+          publishAt: publishAt?.toISOString() ?? null,
+          unpublishAt: unpublishAt?.toISOString() ?? null,
         }),
       })
 
@@ -116,6 +121,7 @@ export default function EditThought({ params }: { params: { id: string } }) {
         }
         
         const data = await response.json()
+        setFieldErrors(data.fieldErrors || {})
         setStatus({ message: data.error || 'Error updating thought', type: 'error' })
       }
     } catch (error) {
@@ -161,6 +167,7 @@ export default function EditThought({ params }: { params: { id: string } }) {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="Thought title"
           />
+          <FieldError message={fieldErrors.title} />
         </div>
 
         <div>
@@ -171,6 +178,7 @@ export default function EditThought({ params }: { params: { id: string } }) {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 h-64"
             placeholder="Your thoughts..."
           />
+          <FieldError message={fieldErrors.content} />
           <p className="text-gray-500 text-sm mt-1">Markdown supported</p>
         </div>
 
@@ -182,6 +190,7 @@ export default function EditThought({ params }: { params: { id: string } }) {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 h-20"
             placeholder="Brief summary of your thought"
           />
+          <FieldError message={fieldErrors.excerpt} />
         </div>
 
         <div>
@@ -193,19 +202,44 @@ export default function EditThought({ params }: { params: { id: string } }) {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="technology, philosophy, learning"
           />
+          <FieldError message={fieldErrors.tags} />
           <p className="text-gray-500 text-sm mt-1">Comma separated list</p>
         </div>
 
-        <div className="flex items-center">
-          <input
-            type="checkbox"
-            id="published"
-            checked={published}
-            onChange={(e) => setPublished(e.target.checked)}
-            className="w-5 h-5 mr-3"
-          />
-          <label htmlFor="published">Published</label>
-        </div>
+        {can('thoughts:publish') ? (
+          <>
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="published"
+                checked={published}
+                onChange={(e) => setPublished(e.target.checked)}
+                className="w-5 h-5 mr-3"
+              />
+              <label htmlFor="published">Published</label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <DateTimeField
+                label="Publish At (Optional)"
+                value={publishAt}
+                onChange={setPublishAt}
+                error={fieldErrors.publishAt}
+                hint="A published thought stays hidden until this time"
+              />
+              <DateTimeField
+                label="Unpublish At (Optional)"
+                value={unpublishAt}
+                onChange={setUnpublishAt}
+                error={fieldErrors.unpublishAt}
+              />
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-500 text-sm">
+            Only editors can change whether this thought is published.
+          </p>
+        )}
 
         <div className="flex items-center gap-4 pt-4">
           <button
@@ -223,6 +257,12 @@ export default function EditThought({ params }: { params: { id: string } }) {
           >
             Cancel
           </Link>
+          <Link
+            href={`/admin/thoughts/edit/${params.id}/history`}
+            className="ml-auto text-gray-600 hover:text-gray-800"
+          >
+            History
+          </Link>
         </div>
 
         {status.message && (
@@ -235,6 +275,10 @@ export default function EditThought({ params }: { params: { id: string } }) {
           </div>
         )}
       </form>
+
+      <PreviewLinkPanel apiBase={`/api/admin/thoughts/${params.id}`} />
+
+      {can('thoughts:publish') && <NewsletterPanel thoughtId={params.id} />}
     </div>
   )
 } 
\ No newline at end of file
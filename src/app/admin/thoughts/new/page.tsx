@@ -3,6 +3,11 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { useCurrentAdmin } from '@/hooks/useCurrentAdmin'
+import { adminFetch } from '@/lib/admin-fetch'
+import type { FieldErrors } from '@/lib/validation'
+import FieldError from '@/components/admin/FieldError'
+import DateTimeField from '@/components/admin/DateTimeField'
 
 export default function NewThought() {
   const [title, setTitle] = useState('')
@@ -10,35 +15,27 @@ export default function NewThought() {
   const [excerpt, setExcerpt] = useState('')
   const [tags, setTags] = useState('')
   const [published, setPublished] = useState(false)
+  const [publishAt, setPublishAt] = useState<Date | null>(null)
+  const [unpublishAt, setUnpublishAt] = useState<Date | null>(null)
   const [loading, setLoading] = useState(false)
   const [status, setStatus] = useState({ message: '', type: '' })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
   const router = useRouter()
+  const { can } = useCurrentAdmin()
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
     setStatus({ message: '', type: '' })
+    setFieldErrors({})
 
     try {
-      // Form validation
-      if (!title.trim()) {
-        setStatus({ message: 'Title is required', type: 'error' })
-        setLoading(false)
-        return
-      }
-
-      if (!content.trim()) {
-        setStatus({ message: 'Content is required', type: 'error' })
-        setLoading(false)
-        return
-      }
-
       const formattedTags = tags
         .split(',')
         .map(tag => tag.trim())
         .filter(tag => tag.length > 0)
 
-      const response = await fetch('/api/admin/thoughts', {
+      const response = await adminFetch('/api/admin/thoughts', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -47,9 +44,11 @@ export default function NewThought() {
         body: JSON.stringify({
           title,
           content,
-          excerpt: excerpt || undefined,
+          excerpt,
           tags: formattedTags,
           published,
+          publishAt: publishAt?.toISOString() ?? null,
+          unpublishAt: unpublishAt?.toISOString() ?? null,
         }),
       })
 
@@ -69,6 +68,7 @@ export default function NewThought() {
         }
         
         const data = await response.json()
+        setFieldErrors(data.fieldErrors || {})
         setStatus({ message: data.error || 'Error creating thought', type: 'error' })
       }
     } catch (error) {
@@ -101,6 +101,7 @@ export default function NewThought() {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="Enter title"
           />
+          <FieldError message={fieldErrors.title} />
         </div>
 
         <div>
@@ -111,6 +112,7 @@ export default function NewThought() {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 h-20"
             placeholder="Brief summary of your thought"
           />
+          <FieldError message={fieldErrors.excerpt} />
         </div>
 
         <div>
@@ -121,6 +123,7 @@ export default function NewThought() {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 h-64"
             placeholder="Write your thought content here..."
           />
+          <FieldError message={fieldErrors.content} />
           <p className="text-gray-500 text-sm mt-1">Markdown supported</p>
         </div>
 
@@ -133,19 +136,44 @@ export default function NewThought() {
             className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
             placeholder="Enter tags separated by commas"
           />
+          <FieldError message={fieldErrors.tags} />
           <p className="text-gray-500 text-sm mt-1">Ex: technology, programming, thoughts</p>
         </div>
 
-        <div className="flex items-center">
-          <input
-            type="checkbox"
-            id="published"
-            checked={published}
-            onChange={(e) => setPublished(e.target.checked)}
-            className="w-5 h-5 mr-3"
-          />
-          <label htmlFor="published">Publish immediately</label>
-        </div>
+        {can('thoughts:publish') ? (
+          <>
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="published"
+                checked={published}
+                onChange={(e) => setPublished(e.target.checked)}
+                className="w-5 h-5 mr-3"
+              />
+              <label htmlFor="published">{publishAt ? 'Publish on the scheduled date' : 'Publish immediately'}</label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <DateTimeField
+                label="Publish At (Optional)"
+                value={publishAt}
+                onChange={setPublishAt}
+                error={fieldErrors.publishAt}
+                hint="Leave empty to go live as soon as it is published"
+              />
+              <DateTimeField
+                label="Unpublish At (Optional)"
+                value={unpublishAt}
+                onChange={setUnpublishAt}
+                error={fieldErrors.unpublishAt}
+              />
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-500 text-sm">
+            Saved as a draft. An editor will publish it.
+          </p>
+        )}
 
         {status.message && (
           <div className={`brutalist-box p-3 ${status.type === 'error' ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
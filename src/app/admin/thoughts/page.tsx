@@ -3,6 +3,9 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import { useCurrentAdmin } from '@/hooks/useCurrentAdmin'
+import { adminFetch } from '@/lib/admin-fetch'
+import ScheduleBadge from '@/components/admin/ScheduleBadge'
 
 type Thought = {
   id: string
@@ -11,6 +14,9 @@ type Thought = {
   excerpt: string | null
   tags: string[]
   published: boolean
+  publishAt: string | null
+  unpublishAt: string | null
+  authorId: string | null
   createdAt: string
 }
 
@@ -19,11 +25,12 @@ export default function ManageThoughts() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const router = useRouter()
+  const { admin, can } = useCurrentAdmin()
 
   useEffect(() => {
     const fetchThoughts = async () => {
       try {
-        const response = await fetch('/api/admin/thoughts', {
+        const response = await adminFetch('/api/admin/thoughts', {
           credentials: 'include', // Include JWT cookie
         })
 
@@ -55,7 +62,7 @@ export default function ManageThoughts() {
     }
 
     try {
-      const response = await fetch(`/api/admin/thoughts/${id}`, {
+      const response = await adminFetch(`/api/admin/thoughts/${id}`, {
         method: 'DELETE',
         credentials: 'include', // Include JWT cookie
       })
@@ -74,7 +81,7 @@ export default function ManageThoughts() {
 
   const handleTogglePublish = async (id: string, currentStatus: boolean) => {
     try {
-      const response = await fetch(`/api/admin/thoughts/${id}`, {
+      const response = await adminFetch(`/api/admin/thoughts/${id}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -175,15 +182,7 @@ export default function ManageThoughts() {
                     )}
                   </td>
                   <td className="py-3 px-6 text-center">
-                    <span
-                      className={`px-3 py-1 rounded-full text-xs ${
-                        thought.published
-                          ? 'bg-green-200 text-green-800'
-                          : 'bg-gray-200 text-gray-800'
-                      }`}
-                    >
-                      {thought.published ? 'Published' : 'Draft'}
-                    </span>
+                    <ScheduleBadge item={thought} />
                   </td>
                   <td className="py-3 px-6 text-center">
                     {new Date(thought.createdAt).toLocaleDateString()}
@@ -198,33 +197,39 @@ export default function ManageThoughts() {
                       >
                         View
                       </Link>
-                      <Link
-                        href={`/admin/thoughts/edit/${thought.id}`}
-                        className="text-blue-500 hover:text-blue-700"
-                        title="Edit"
-                      >
-                        Edit
-                      </Link>
-                      <button
-                        onClick={() =>
-                          handleTogglePublish(thought.id, thought.published)
-                        }
-                        className={`hover:underline ${
-                          thought.published
-                            ? 'text-orange-500 hover:text-orange-700'
-                            : 'text-green-500 hover:text-green-700'
-                        }`}
-                        title={thought.published ? 'Unpublish' : 'Publish'}
-                      >
-                        {thought.published ? 'Unpublish' : 'Publish'}
-                      </button>
-                      <button
-                        onClick={() => handleDelete(thought.id)}
-                        className="text-red-500 hover:text-red-700"
-                        title="Delete"
-                      >
-                        Delete
-                      </button>
+                      {(can('thoughts:edit-any') || thought.authorId === admin?.id) && (
+                        <Link
+                          href={`/admin/thoughts/edit/${thought.id}`}
+                          className="text-blue-500 hover:text-blue-700"
+                          title="Edit"
+                        >
+                          Edit
+                        </Link>
+                      )}
+                      {can('thoughts:publish') && (
+                        <button
+                          onClick={() =>
+                            handleTogglePublish(thought.id, thought.published)
+                          }
+                          className={`hover:underline ${
+                            thought.published
+                              ? 'text-orange-500 hover:text-orange-700'
+                              : 'text-green-500 hover:text-green-700'
+                          }`}
+                          title={thought.published ? 'Unpublish' : 'Publish'}
+                        >
+                          {thought.published ? 'Unpublish' : 'Publish'}
+                        </button>
+                      )}
+                      {can('thoughts:delete') && (
+                        <button
+                          onClick={() => handleDelete(thought.id)}
+                          className="text-red-500 hover:text-red-700"
+                          title="Delete"
+                        >
+                          Delete
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
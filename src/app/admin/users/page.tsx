@@ -0,0 +1,436 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ADMIN_ROLES, AdminRole } from '@/lib/permissions'
+import { adminFetch } from '@/lib/admin-fetch'
+import type { FieldErrors } from '@/lib/validation'
+import FieldError from '@/components/admin/FieldError'
+
+type AdminUser = {
+  id: string
+  username: string
+  role: AdminRole
+  disabled: boolean
+  locked: boolean
+  totpEnabledAt: string | null
+  lastLoginAt: string | null
+  createdAt: string
+}
+
+export default function ManageUsers() {
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [role, setRole] = useState<AdminRole>('AUTHOR')
+  const [creating, setCreating] = useState(false)
+  const [resetUserId, setResetUserId] = useState<string | null>(null)
+  const [resetPassword, setResetPassword] = useState('')
+  const [status, setStatus] = useState({ message: '', type: '' })
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
+  // Rejected fields from the last change, shown in that user's row
+  const [updateErrors, setUpdateErrors] = useState<{ id: string; fieldErrors: FieldErrors } | null>(null)
+  const router = useRouter()
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const response = await adminFetch('/api/admin/users', {
+          credentials: 'include', // Include JWT cookie
+        })
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            // Redirect to login if unauthorized
+            router.push('/admin/login')
+            return
+          }
+          throw new Error(`Error: ${response.status}`)
+        }
+
+        const data = await response.json()
+        setUsers(data)
+      } catch (err) {
+        setError('Failed to load users')
+        console.error(err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchUsers()
+  }, [router])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setStatus({ message: '', type: '' })
+    setFieldErrors({})
+
+    try {
+      const response = await adminFetch('/api/admin/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // Include JWT cookie
+        body: JSON.stringify({ username, password, role }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {})
+        setStatus({ message: data.error || 'Error creating user', type: 'error' })
+        return
+      }
+
+      setUsers([...users, data])
+      setUsername('')
+      setPassword('')
+      setRole('AUTHOR')
+      setStatus({ message: `User ${data.username} created`, type: 'success' })
+    } catch (err) {
+      console.error('Error creating user:', err)
+      setStatus({ message: 'An unexpected error occurred', type: 'error' })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const rowError = (id: string, field: string) =>
+    updateErrors?.id === id ? updateErrors.fieldErrors[field] : undefined
+
+  // False when the API rejected a field, which is then shown inline
+  const updateUser = async (
+    id: string,
+    changes: {
+      role?: AdminRole
+      disabled?: boolean
+      password?: string
+      unlock?: boolean
+      resetTwoFactor?: boolean
+    }
+  ) => {
+    setUpdateErrors(null)
+
+    const response = await adminFetch(`/api/admin/users/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include', // Include JWT cookie
+      body: JSON.stringify(changes),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      if (data.fieldErrors) {
+        setUpdateErrors({ id, fieldErrors: data.fieldErrors })
+        return false
+      }
+      throw new Error(data.error || `Error: ${response.status}`)
+    }
+
+    // Update the user in the state
+    setUsers(users.map(user => (user.id === id ? data : user)))
+    return true
+  }
+
+  const handleToggleDisabled = async (user: AdminUser) => {
+    try {
+      await updateUser(user.id, { disabled: !user.disabled })
+    } catch (err) {
+      console.error('Error updating user:', err)
+      alert(err instanceof Error ? err.message : 'Failed to update user')
+    }
+  }
+
+  const handleUnlock = async (user: AdminUser) => {
+    try {
+      if (await updateUser(user.id, { unlock: true })) {
+        setStatus({ message: `${user.username} can sign in again`, type: 'success' })
+      }
+    } catch (err) {
+      console.error('Error unlocking user:', err)
+      alert(err instanceof Error ? err.message : 'Failed to unlock user')
+    }
+  }
+
+  const handleResetTwoFactor = async (user: AdminUser) => {
+    if (!window.confirm(`Remove two-factor authentication from ${user.username}? They will sign in with just their password until they enroll again.`)) {
+      return
+    }
+
+    try {
+      await updateUser(user.id, { resetTwoFactor: true })
+    } catch (err) {
+      console.error('Error resetting two-factor authentication:', err)
+      alert(err instanceof Error ? err.message : 'Failed to reset two-factor authentication')
+    }
+  }
+
+  const handleRoleChange = async (user: AdminUser, newRole: AdminRole) => {
+    try {
+      await updateUser(user.id, { role: newRole })
+    } catch (err) {
+      console.error('Error updating user:', err)
+      alert(err instanceof Error ? err.message : 'Failed to update role')
+    }
+  }
+
+  const handleResetPassword = async (e: React.FormEvent, user: AdminUser) => {
+    e.preventDefault()
+
+    try {
+      if (await updateUser(user.id, { password: resetPassword })) {
+        setResetUserId(null)
+        setResetPassword('')
+        setStatus({ message: `Password for ${user.username} was reset`, type: 'success' })
+      }
+    } catch (err) {
+      console.error('Error resetting password:', err)
+      setStatus({ message: err instanceof Error ? err.message : 'Failed to reset password', type: 'error' })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-8">Manage Users</h1>
+        <p>Loading...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-8">Manage Users</h1>
+        <p className="text-red-500">{error}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Manage Users</h1>
+        <Link href="/admin/dashboard" className="tag">
+          Back to Dashboard
+        </Link>
+      </div>
+
+      <form onSubmit={handleCreate} className="brutalist-box mb-8 space-y-4">
+        <h2>Add User</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="block mb-2">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="jane.doe"
+              required
+            />
+            <FieldError message={fieldErrors.username} />
+          </div>
+
+          <div>
+            <label className="block mb-2">Initial Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="At least 10 characters"
+              required
+            />
+            <FieldError message={fieldErrors.password} />
+          </div>
+
+          <div>
+            <label className="block mb-2">Role</label>
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as AdminRole)}
+              className="w-full p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {ADMIN_ROLES.map((option) => (
+                <option key={option} value={option}>
+                  {option.toLowerCase()}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="text-gray-500 text-sm">
+          Authors write drafts, editors can also publish and delete thoughts, owners manage projects and users.
+        </p>
+
+        <button
+          type="submit"
+          disabled={creating}
+          className="tag bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed"
+        >
+          {creating ? 'Creating...' : 'Create User'}
+        </button>
+      </form>
+
+      {status.message && (
+        <div
+          className={`p-4 mb-8 rounded ${
+            status.type === 'error' ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+          }`}
+        >
+          {status.message}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr className="bg-gray-200 text-gray-600 uppercase text-sm leading-normal">
+              <th className="py-3 px-6 text-left">Username</th>
+              <th className="py-3 px-6 text-center">Role</th>
+              <th className="py-3 px-6 text-center">Status</th>
+              <th className="py-3 px-6 text-center">Last Login</th>
+              <th className="py-3 px-6 text-center">Created</th>
+              <th className="py-3 px-6 text-center">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-600 text-sm">
+            {users.map((user) => (
+              <tr
+                key={user.id}
+                className="border-b border-gray-200 hover:bg-gray-100"
+              >
+                <td className="py-3 px-6 text-left whitespace-nowrap">
+                  <div className="font-medium">{user.username}</div>
+                </td>
+                <td className="py-3 px-6 text-center">
+                  <select
+                    value={user.role}
+                    onChange={(e) => handleRoleChange(user, e.target.value as AdminRole)}
+                    className="p-1 rounded border border-gray-400"
+                  >
+                    {ADMIN_ROLES.map((option) => (
+                      <option key={option} value={option}>
+                        {option.toLowerCase()}
+                      </option>
+                    ))}
+                  </select>
+                  <FieldError message={rowError(user.id, 'role')} />
+                </td>
+                <td className="py-3 px-6 text-center">
+                  <span
+                    className={`px-3 py-1 rounded-full text-xs ${
+                      user.disabled
+                        ? 'bg-red-200 text-red-800'
+                        : 'bg-green-200 text-green-800'
+                    }`}
+                  >
+                    {user.disabled ? 'Disabled' : 'Active'}
+                  </span>
+                  {user.totpEnabledAt && (
+                    <span className="ml-2 px-3 py-1 rounded-full text-xs bg-blue-200 text-blue-800">
+                      2FA
+                    </span>
+                  )}
+                  {user.locked && (
+                    <span className="ml-2 px-3 py-1 rounded-full text-xs bg-orange-200 text-orange-800">
+                      Locked
+                    </span>
+                  )}
+                  <FieldError message={rowError(user.id, 'disabled')} />
+                </td>
+                <td className="py-3 px-6 text-center">
+                  {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+                </td>
+                <td className="py-3 px-6 text-center">
+                  {new Date(user.createdAt).toLocaleDateString()}
+                </td>
+                <td className="py-3 px-6 text-center">
+                  {resetUserId === user.id ? (
+                    <form
+                      onSubmit={(e) => handleResetPassword(e, user)}
+                      className="flex justify-center items-center gap-2"
+                    >
+                      <input
+                        type="password"
+                        value={resetPassword}
+                        onChange={(e) => setResetPassword(e.target.value)}
+                        className="p-1 rounded border border-gray-400"
+                        placeholder="New password"
+                        autoFocus
+                        required
+                      />
+                      <button type="submit" className="text-blue-500 hover:text-blue-700">
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setResetUserId(null)
+                          setResetPassword('')
+                        }}
+                        className="text-gray-500 hover:text-gray-700"
+                      >
+                        Cancel
+                      </button>
+                      <FieldError message={rowError(user.id, 'password')} />
+                    </form>
+                  ) : (
+                    <div className="flex justify-center items-center gap-2">
+                      <button
+                        onClick={() => setResetUserId(user.id)}
+                        className="text-blue-500 hover:text-blue-700"
+                        title="Reset password"
+                      >
+                        Reset Password
+                      </button>
+                      {user.locked && (
+                        <button
+                          onClick={() => handleUnlock(user)}
+                          className="text-orange-500 hover:text-orange-700"
+                          title="Clear the failed-login lockout"
+                        >
+                          Unlock
+                        </button>
+                      )}
+                      {user.totpEnabledAt && (
+                        <button
+                          onClick={() => handleResetTwoFactor(user)}
+                          className="text-purple-500 hover:text-purple-700"
+                          title="Remove two-factor authentication"
+                        >
+                          Reset 2FA
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleToggleDisabled(user)}
+                        className={`hover:underline ${
+                          user.disabled
+                            ? 'text-green-500 hover:text-green-700'
+                            : 'text-red-500 hover:text-red-700'
+                        }`}
+                        title={user.disabled ? 'Enable' : 'Disable'}
+                      >
+                        {user.disabled ? 'Enable' : 'Disable'}
+                      </button>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
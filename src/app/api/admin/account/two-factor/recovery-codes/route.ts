@@ -0,0 +1,47 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { generateRecoveryCodes, hashRecoveryCode } from '@/lib/totp'
+import { verifySecondFactor } from '@/lib/two-factor'
+import { invalidFields, parseBody, twoFactorCodeSchema } from '@/lib/validation'
+
+// POST { code } replaces all recovery codes with a fresh set
+export async function POST(request: Request) {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, twoFactorCodeSchema)
+    if (invalid) return invalid
+
+    const user = await prisma.adminUser.findUniqueOrThrow({
+      where: { id: admin.id },
+    })
+
+    if (!user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await verifySecondFactor(user, { code: data.code }))) {
+      return invalidFields({ code: 'Invalid authentication code' })
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+
+    await prisma.adminUser.update({
+      where: { id: user.id },
+      data: { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) },
+    })
+
+    return NextResponse.json({ recoveryCodes })
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error)
+    return NextResponse.json(
+      { error: 'Error regenerating recovery codes' },
+      { status: 500 }
+    )
+  }
+}
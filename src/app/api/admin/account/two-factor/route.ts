@@ -0,0 +1,169 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import QRCode from 'qrcode'
+import { requireAdmin } from '@/lib/admin-users'
+import { verifyPassword } from '@/lib/password'
+import { invalidFields, parseBody, twoFactorCodeSchema, twoFactorDisableSchema } from '@/lib/validation'
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from '@/lib/totp'
+
+// GET the two-factor status of the signed-in admin
+export async function GET() {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const user = await prisma.adminUser.findUniqueOrThrow({
+      where: { id: admin.id },
+    })
+
+    return NextResponse.json({
+      enabled: !!user.totpEnabledAt,
+      enabledAt: user.totpEnabledAt,
+      recoveryCodesRemaining: user.recoveryCodeHashes.length,
+    })
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error)
+    return NextResponse.json(
+      { error: 'Error fetching two-factor status' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST starts enrollment: generates a new secret and returns it as an
+// otpauth:// URI and QR code. It isn't active until confirmed with PUT.
+export async function POST() {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const user = await prisma.adminUser.findUniqueOrThrow({
+      where: { id: admin.id },
+    })
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      )
+    }
+
+    const secret = generateTotpSecret()
+    const otpauthUri = buildOtpauthUri(secret, user.username)
+
+    await prisma.adminUser.update({
+      where: { id: user.id },
+      data: { totpSecret: secret, totpLastUsedStep: null },
+    })
+
+    return NextResponse.json({
+      secret,
+      otpauthUri,
+      qrCode: await QRCode.toDataURL(otpauthUri, { margin: 1, width: 240 }),
+    })
+  } catch (error) {
+    console.error('Error starting two-factor enrollment:', error)
+    return NextResponse.json(
+      { error: 'Error starting two-factor enrollment' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT { code } confirms enrollment with a code from the authenticator app and
+// returns the recovery codes. They are only ever shown this once.
+export async function PUT(request: Request) {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, twoFactorCodeSchema)
+    if (invalid) return invalid
+
+    const user = await prisma.adminUser.findUniqueOrThrow({
+      where: { id: admin.id },
+    })
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      )
+    }
+
+    if (!user.totpSecret) {
+      return NextResponse.json(
+        { error: 'Start enrollment before confirming a code' },
+        { status: 400 }
+      )
+    }
+
+    const step = verifyTotp(user.totpSecret, data.code)
+
+    if (step === null) {
+      return invalidFields({ code: 'That code is not valid. Check the time on your device and try again.' })
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+
+    await prisma.adminUser.update({
+      where: { id: user.id },
+      data: {
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: step,
+        recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      },
+    })
+
+    return NextResponse.json({ enabled: true, recoveryCodes })
+  } catch (error) {
+    console.error('Error confirming two-factor enrollment:', error)
+    return NextResponse.json(
+      { error: 'Error confirming two-factor enrollment' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE { password } turns two-factor authentication off
+export async function DELETE(request: Request) {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, twoFactorDisableSchema)
+    if (invalid) return invalid
+
+    const user = await prisma.adminUser.findUniqueOrThrow({
+      where: { id: admin.id },
+    })
+
+    if (!(await verifyPassword(data.password, user.passwordHash))) {
+      return invalidFields({ password: 'Incorrect password' })
+    }
+
+    await prisma.adminUser.update({
+      where: { id: user.id },
+      data: {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        recoveryCodeHashes: [],
+      },
+    })
+
+    return NextResponse.json({ enabled: false })
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error)
+    return NextResponse.json(
+      { error: 'Error disabling two-factor authentication' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { AuditAction, Prisma } from '@prisma/client'
+import { requireAdmin } from '@/lib/admin-users'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/audit'
+import { countParam } from '@/lib/validation'
+
+const DEFAULT_PAGE_SIZE = 25
+
+// GET a page of audit events, newest first. Filters: action, entityType,
+// entityId and actor (username).
+export async function GET(request: Request) {
+  try {
+    const { error } = await requireAdmin('audit:view')
+    if (error) return error
+
+    const { searchParams } = new URL(request.url)
+    const page = countParam(searchParams.get('page'), 1)
+    const pageSize = countParam(searchParams.get('pageSize'), DEFAULT_PAGE_SIZE, 100)
+
+    const where: Prisma.AuditEventWhereInput = {}
+
+    const action = searchParams.get('action')
+    if (action) {
+      if (!AUDIT_ACTIONS.includes(action as AuditAction)) {
+        return NextResponse.json(
+          { error: `action must be one of ${AUDIT_ACTIONS.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      where.action = action as AuditAction
+    }
+
+    const entityType = searchParams.get('entityType')
+    if (entityType) {
+      if (!(AUDIT_ENTITY_TYPES as readonly string[]).includes(entityType)) {
+        return NextResponse.json(
+          { error: `entityType must be one of ${AUDIT_ENTITY_TYPES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      where.entityType = entityType
+    }
+
+    const entityId = searchParams.get('entityId')
+    if (entityId) {
+      where.entityId = entityId
+    }
+
+    const actor = searchParams.get('actor')?.trim().toLowerCase()
+    if (actor) {
+      where.actorUsername = actor
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.auditEvent.count({ where }),
+    ])
+
+    return NextResponse.json({ events, total, page, pageSize })
+  } catch (error) {
+    console.error('Error fetching audit events:', error)
+    return NextResponse.json(
+      { error: 'Error fetching audit events' },
+      { status: 500 }
+    )
+  }
+}
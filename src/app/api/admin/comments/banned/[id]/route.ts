@@ -0,0 +1,33 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+
+// DELETE lifts a ban. Comments rejected by the ban stay rejected.
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { error } = await requireAdmin('comments:moderate')
+    if (error) return error
+
+    const banned = await prisma.bannedEmail.findUnique({ where: { id: params.id } })
+
+    if (!banned) {
+      return NextResponse.json(
+        { error: 'Ban not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.bannedEmail.delete({ where: { id: params.id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error lifting ban:', error)
+    return NextResponse.json(
+      { error: 'Error lifting ban' },
+      { status: 500 }
+    )
+  }
+}
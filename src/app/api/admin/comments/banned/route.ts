@@ -0,0 +1,24 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+
+// GET every banned address, newest first
+export async function GET() {
+  try {
+    const { error } = await requireAdmin('comments:moderate')
+    if (error) return error
+
+    const banned = await prisma.bannedEmail.findMany({
+      include: { bannedBy: { select: { username: true } } },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json(banned)
+  } catch (error) {
+    console.error('Error fetching banned emails:', error)
+    return NextResponse.json(
+      { error: 'Error fetching banned emails' },
+      { status: 500 }
+    )
+  }
+}
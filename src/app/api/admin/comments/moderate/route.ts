@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { moderateComments } from '@/lib/comments'
+import { revalidateThought } from '@/lib/revalidate'
+import { commentModerationSchema, invalidFields, parseBody } from '@/lib/validation'
+
+// POST approves, rejects or bans the authors of the selected comments
+export async function POST(request: Request) {
+  try {
+    const { admin, error } = await requireAdmin('comments:moderate')
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, commentModerationSchema)
+    if (invalid) return invalid
+
+    if (data.ids.length === 0) {
+      return invalidFields({ ids: 'Select at least one comment' })
+    }
+
+    const { updated, slugs } = await moderateComments(data.ids, data.action, admin.id)
+
+    if (slugs.length > 0) {
+      revalidateThought(...slugs)
+    }
+
+    return NextResponse.json({ updated })
+  } catch (error) {
+    console.error('Error moderating comments:', error)
+    return NextResponse.json(
+      { error: 'Error moderating comments' },
+      { status: 500 }
+    )
+  }
+}
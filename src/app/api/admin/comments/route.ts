@@ -0,0 +1,55 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { CommentStatus } from '@prisma/client'
+import { requireAdmin } from '@/lib/admin-users'
+import { COMMENT_STATUSES } from '@/lib/comments'
+import { countParam } from '@/lib/validation'
+
+const DEFAULT_PAGE_SIZE = 25
+
+// GET a page of comments with one status, oldest first for the pending queue
+// and newest first otherwise, plus the size of the pending queue
+export async function GET(request: Request) {
+  try {
+    const { error } = await requireAdmin('comments:moderate')
+    if (error) return error
+
+    const { searchParams } = new URL(request.url)
+    const page = countParam(searchParams.get('page'), 1)
+    const pageSize = countParam(searchParams.get('pageSize'), DEFAULT_PAGE_SIZE, 100)
+
+    const status = searchParams.get('status') || 'PENDING'
+    if (!(COMMENT_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${COMMENT_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const where = { status: status as CommentStatus }
+
+    const [comments, total, pendingCount] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        include: {
+          post: { select: { title: true, slug: true } },
+          parent: { select: { authorName: true } },
+          moderatedBy: { select: { username: true } },
+        },
+        orderBy: { createdAt: status === 'PENDING' ? 'asc' : 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.comment.count({ where }),
+      prisma.comment.count({ where: { status: 'PENDING' } }),
+    ])
+
+    return NextResponse.json({ comments, total, pendingCount, page, pageSize })
+  } catch (error) {
+    console.error('Error fetching comments:', error)
+    return NextResponse.json(
+      { error: 'Error fetching comments' },
+      { status: 500 }
+    )
+  }
+}
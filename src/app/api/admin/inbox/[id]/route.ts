@@ -0,0 +1,83 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { inboxMessageSchema, parsePartialBody } from '@/lib/validation'
+
+// PATCH a message's read, starred or archived flag
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { error } = await requireAdmin('inbox:manage')
+    if (error) return error
+
+    const { data, error: invalid } = await parsePartialBody(request, inboxMessageSchema)
+    if (invalid) return invalid
+
+    const existingMessage = await prisma.contactMessage.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existingMessage) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    // Read and archived are stored as the time they were set, kept if the
+    // flag was already on
+    const now = new Date()
+    const message = await prisma.contactMessage.update({
+      where: { id: params.id },
+      data: {
+        ...(data.read !== undefined && { readAt: data.read ? existingMessage.readAt ?? now : null }),
+        ...(data.archived !== undefined && { archivedAt: data.archived ? existingMessage.archivedAt ?? now : null }),
+        ...(data.starred !== undefined && { starred: data.starred }),
+      },
+    })
+
+    return NextResponse.json(message)
+  } catch (error) {
+    console.error('Error updating contact message:', error)
+    return NextResponse.json(
+      { error: 'Error updating contact message' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE a message
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { error } = await requireAdmin('inbox:manage')
+    if (error) return error
+
+    const message = await prisma.contactMessage.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.contactMessage.delete({
+      where: { id: params.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting contact message:', error)
+    return NextResponse.json(
+      { error: 'Error deleting contact message' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { INBOX_FOLDERS, InboxFolder, folderWhere } from '@/lib/contact'
+import { countParam } from '@/lib/validation'
+
+const DEFAULT_PAGE_SIZE = 25
+
+// GET a page of contact messages, newest first, from one folder (inbox,
+// starred or archived), with the number of unread messages in the inbox
+export async function GET(request: Request) {
+  try {
+    const { error } = await requireAdmin('inbox:manage')
+    if (error) return error
+
+    const { searchParams } = new URL(request.url)
+    const page = countParam(searchParams.get('page'), 1)
+    const pageSize = countParam(searchParams.get('pageSize'), DEFAULT_PAGE_SIZE, 100)
+
+    const folder = searchParams.get('folder') || 'inbox'
+    if (!(INBOX_FOLDERS as readonly string[]).includes(folder)) {
+      return NextResponse.json(
+        { error: `folder must be one of ${INBOX_FOLDERS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const where = folderWhere(folder as InboxFolder)
+
+    const [messages, total, unreadCount] = await Promise.all([
+      prisma.contactMessage.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.contactMessage.count({ where }),
+      prisma.contactMessage.count({ where: { ...folderWhere('inbox'), readAt: null } }),
+    ])
+
+    return NextResponse.json({ messages, total, unreadCount, page, pageSize })
+  } catch (error) {
+    console.error('Error fetching contact messages:', error)
+    return NextResponse.json(
+      { error: 'Error fetching contact messages' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { countParam } from '@/lib/validation'
+
+// GET recent failed login attempts for the dashboard
+export async function GET(request: Request) {
+  try {
+    const { error } = await requireAdmin('users:manage')
+    if (error) return error
+
+    const { searchParams } = new URL(request.url)
+    const limit = countParam(searchParams.get('limit'), 10, 100)
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000)
+
+    const [attempts, failedLast24h] = await Promise.all([
+      prisma.loginAttempt.findMany({
+        where: { success: false },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: {
+          id: true,
+          username: true,
+          ip: true,
+          reason: true,
+          createdAt: true,
+        },
+      }),
+      prisma.loginAttempt.count({
+        where: { success: false, createdAt: { gte: since } },
+      }),
+    ])
+
+    return NextResponse.json({ attempts, failedLast24h })
+  } catch (error) {
+    console.error('Error fetching login attempts:', error)
+    return NextResponse.json(
+      { error: 'Error fetching login attempts' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,17 +1,152 @@
 import { NextResponse } from 'next/server'
-import * as jose from 'jose'
-import { cookies } from 'next/headers'
+import { prisma } from '@/lib/db'
+import { signMfaChallenge, verifyMfaChallenge } from '@/lib/auth'
+import { bootstrapAdminFromEnv } from '@/lib/admin-users'
+import { normalizeUsername } from '@/lib/validation'
+import { hashPassword, verifyPassword } from '@/lib/password'
+import { loginThrottle } from '@/lib/login-throttle'
+import { notifyAccountLocked } from '@/lib/notifications'
+import { getClientIp } from '@/lib/rate-limit'
+import { createSession } from '@/lib/sessions'
+import { isTwoFactorEnabled, verifySecondFactor } from '@/lib/two-factor'
+import type { AdminRole } from '@/lib/permissions'
 
-// Security-critical constants should come from environment variables
-const JWT_SECRET = process.env.JWT_SECRET
-const ADMIN_USERNAME = process.env.ADMIN_USERNAME
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD
-const TOKEN_EXPIRY = '24h'
+// Compared against when the username doesn't exist, so unknown usernames take
+// as long to reject as wrong passwords
+let dummyHash: Promise<string> | null = null
+
+// Every attempt is stored so the dashboard can surface failed logins. A broken
+// audit write must never block a legitimate login.
+async function recordAttempt(
+  request: Request,
+  username: string,
+  success: boolean,
+  reason?: 'invalid_credentials' | 'invalid_second_factor' | 'locked' | 'rate_limited'
+) {
+  try {
+    await prisma.loginAttempt.create({
+      data: {
+        username,
+        ip: getClientIp(request),
+        userAgent: request.headers.get('user-agent'),
+        success,
+        reason,
+      },
+    })
+  } catch (error) {
+    console.error('Error recording login attempt:', error)
+  }
+}
+
+// Counts a failed attempt against the account and alerts the owner when it
+// locks the account
+async function recordFailure(request: Request, username: string) {
+  const { lockedFor } = await loginThrottle.recordFailure(username)
+
+  if (lockedFor) {
+    await notifyAccountLocked({ username, ip: getClientIp(request), lockedFor })
+  }
+}
+
+function tooManyAttempts(message: string, retryAfter: number) {
+  return NextResponse.json(
+    { error: message, retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  )
+}
+
+// Returns a 429 response if the attempt is throttled, otherwise null
+async function checkThrottle(request: Request, username: string) {
+  const check = await loginThrottle.check(getClientIp(request), username)
+
+  if (check.allowed) {
+    return null
+  }
+
+  const minutes = Math.ceil(check.retryAfter / 60)
+
+  if (check.reason === 'locked') {
+    await recordAttempt(request, username, false, 'locked')
+    return tooManyAttempts(
+      `This account is temporarily locked after too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      check.retryAfter
+    )
+  }
+
+  await recordAttempt(request, username, false, 'rate_limited')
+  return tooManyAttempts(
+    `Too many login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+    check.retryAfter
+  )
+}
+
+// Starts a session once every required factor has been checked
+async function completeLogin(
+  request: Request,
+  user: { id: string; username: string; role: AdminRole }
+) {
+  await loginThrottle.recordSuccess(user.username)
+  await recordAttempt(request, user.username, true)
+
+  await prisma.adminUser.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  })
+
+  // Creates the Session row and sets the access and refresh cookies
+  await createSession(request, user)
+
+  return NextResponse.json({ success: true })
+}
+
+// Second step of a two-factor login: { challengeToken, code } or
+// { challengeToken, recoveryCode }
+async function verifyTwoFactorStep(request: Request, body: Record<string, unknown>) {
+  const userId = await verifyMfaChallenge(body.challengeToken)
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Your login session expired. Please enter your password again.', challengeExpired: true },
+      { status: 401 }
+    )
+  }
+
+  const user = await prisma.adminUser.findUnique({
+    where: { id: userId },
+  })
+
+  if (!user || user.disabled) {
+    return NextResponse.json(
+      { error: 'Invalid username or password' },
+      { status: 401 }
+    )
+  }
+
+  const throttled = await checkThrottle(request, user.username)
+  if (throttled) return throttled
+
+  const valid = await verifySecondFactor(user, {
+    code: body.code,
+    recoveryCode: body.recoveryCode,
+  })
+
+  if (!valid) {
+    await recordAttempt(request, user.username, false, 'invalid_second_factor')
+    await recordFailure(request, user.username)
+
+    return NextResponse.json(
+      { error: 'Invalid authentication code' },
+      { status: 401 }
+    )
+  }
+
+  return completeLogin(request, user)
+}
 
 export async function POST(request: Request) {
   try {
-    // Check if environment variables are set
-    if (!JWT_SECRET || !ADMIN_USERNAME || !ADMIN_PASSWORD) {
+    // Security-critical constants should come from environment variables
+    if (!process.env.JWT_SECRET) {
       console.error('Admin authentication environment variables are not properly configured')
       return NextResponse.json(
         { error: 'Server authentication configuration error' },
@@ -20,39 +155,53 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const { username, password } = body
+
+    if (body.challengeToken !== undefined) {
+      return verifyTwoFactorStep(request, body)
+    }
+
+    const username = normalizeUsername(body.username)
+    const password = typeof body.password === 'string' ? body.password : ''
+
+    if (!username || !password) {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      )
+    }
+
+    const throttled = await checkThrottle(request, username)
+    if (throttled) return throttled
+
+    await bootstrapAdminFromEnv()
+
+    const user = await prisma.adminUser.findUnique({
+      where: { username },
+    })
+
+    dummyHash ??= hashPassword('not-a-real-password')
+    const passwordValid = await verifyPassword(password, user?.passwordHash ?? await dummyHash)
 
     // Validate credentials
-    if (username !== ADMIN_USERNAME || password !== ADMIN_PASSWORD) {
+    if (!user || !passwordValid || user.disabled) {
+      await recordAttempt(request, username, false, 'invalid_credentials')
+      await recordFailure(request, username)
+
       return NextResponse.json(
         { error: 'Invalid username or password' },
         { status: 401 }
       )
     }
 
-    // Create a JWT token
-    const secret = new TextEncoder().encode(JWT_SECRET)
-    const token = await new jose.SignJWT({ 
-      username,
-      role: 'admin'
-    })
-      .setProtectedHeader({ alg: 'HS256' })
-      .setIssuedAt()
-      .setExpirationTime(TOKEN_EXPIRY)
-      .sign(secret)
-
-    // Set cookie
-    cookies().set({
-      name: 'admin_token',
-      value: token,
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 60 * 60 * 24, // 24 hours
-    })
+    // Password is correct, but the JWT is only issued after the second factor
+    if (isTwoFactorEnabled(user)) {
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challengeToken: await signMfaChallenge(user.id),
+      })
+    }
 
-    return NextResponse.json({ success: true })
+    return completeLogin(request, user)
   } catch (error) {
     console.error('Login error:', error)
     return NextResponse.json(
@@ -60,4 +209,4 @@ export async function POST(request: Request) {
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
@@ -1,10 +1,17 @@
 import { NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
+import { ADMIN_TOKEN_COOKIE, verifyAdminToken } from '@/lib/auth'
+import { clearSessionCookies, revokeSession } from '@/lib/sessions'
 
 export async function POST() {
   try {
-    // Clear the admin token cookie
-    cookies().delete('admin_token')
+    // Revoke the session server-side so a copied token stops working too
+    const payload = await verifyAdminToken(cookies().get(ADMIN_TOKEN_COOKIE)?.value)
+    if (payload) {
+      await revokeSession(payload.sid)
+    }
+
+    clearSessionCookies()
     
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -14,4 +21,4 @@ export async function POST() {
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { getMailTransport, mailFrom } from '@/lib/mail'
+import { notificationAddress } from '@/lib/notifications'
+
+// GET the active mail transport and its non-secret settings
+export async function GET() {
+  try {
+    const { error } = await requireAdmin('mail:manage')
+    if (error) return error
+
+    const transport = getMailTransport()
+
+    return NextResponse.json({
+      transport: transport.name,
+      settings: transport.describe(),
+      from: mailFrom(),
+      notifyTo: notificationAddress(),
+    })
+  } catch (error) {
+    console.error('Error reading mail settings:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read mail settings' },
+      { status: 500 }
+    )
+  }
+}
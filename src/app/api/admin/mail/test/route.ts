@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { getMailTransport, sendMail } from '@/lib/mail'
+import { testEmail } from '@/lib/mail-templates'
+import { mailTestSchema, parseBody } from '@/lib/validation'
+
+// POST a test message through the active transport. Delivery errors are
+// returned so the admin can see what the mail server said.
+export async function POST(request: Request) {
+  try {
+    const { admin, error } = await requireAdmin('mail:manage')
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, mailTestSchema)
+    if (invalid) return invalid
+
+    await sendMail({
+      to: data.to,
+      ...testEmail({ transport: getMailTransport().name, sentBy: admin.username }),
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error sending test email:', error)
+    return NextResponse.json(
+      { error: `Sending failed: ${error instanceof Error ? error.message : 'unknown error'}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+
+// GET the signed-in admin, so the admin UI can hide actions the role can't perform
+export async function GET() {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    return NextResponse.json(admin)
+  } catch (error) {
+    console.error('Error fetching current admin:', error)
+    return NextResponse.json(
+      { error: 'Error fetching current admin' },
+      { status: 500 }
+    )
+  }
+}
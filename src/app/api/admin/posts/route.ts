@@ -1,22 +1,41 @@
-import { prisma } from '@/lib/db'
 import { NextResponse } from 'next/server'
 import slugify from 'slugify'
+import { requireAdmin } from '@/lib/admin-users'
+import { blogPostSchema, checkSchedule, invalidFields, parseBody } from '@/lib/validation'
+import { recordAuditEvent } from '@/lib/audit'
+import { saveWithRevision } from '@/lib/revisions'
+import { revalidateThought } from '@/lib/revalidate'
+import { updateThoughtLinks } from '@/lib/wiki-links'
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json()
-    const { title, content } = body
+    // This legacy endpoint publishes immediately
+    const { admin, error } = await requireAdmin('thoughts:publish')
+    if (error) return error
 
-    const slug = slugify(title, { lower: true })
+    const { data, error: invalid } = await parseBody(request, blogPostSchema)
+    if (invalid) return invalid
 
-    const post = await prisma.blogPost.create({
-      data: {
-        title,
-        content,
-        slug,
-        published: true,
-      },
-    })
+    const scheduleErrors = checkSchedule(data)
+    if (scheduleErrors) return invalidFields(scheduleErrors)
+
+    const slug = slugify(data.title, { lower: true })
+
+    const post = await saveWithRevision(
+      tx => tx.blogPost.create({
+        data: {
+          ...data,
+          slug,
+          published: true,
+          authorId: admin.id,
+        },
+      }),
+      { entityType: 'BlogPost', author: admin }
+    )
+
+    await recordAuditEvent({ actor: admin, action: 'CREATE', entityType: 'BlogPost', before: null, after: post })
+    const linkedSlugs = await updateThoughtLinks(null, post)
+    revalidateThought(post.slug, ...linkedSlugs)
 
     return NextResponse.json(post)
   } catch {
@@ -0,0 +1,45 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { signPreviewToken, verifyPreviewToken } from '@/lib/auth'
+import { parseBody, previewLinkSchema } from '@/lib/validation'
+
+// POST creates a shareable preview link for a project
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { error } = await requireAdmin('projects:manage')
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, previewLinkSchema)
+    if (invalid) return invalid
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { id: true, slug: true },
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const token = await signPreviewToken('Project', project.id, data.expiresIn)
+    const { expiresAt } = (await verifyPreviewToken(token))!
+
+    return NextResponse.json({
+      url: `/projects/${project.slug}?preview=${token}`,
+      expiresAt,
+    })
+  } catch (error) {
+    console.error('Error creating preview link:', error)
+    return NextResponse.json(
+      { error: 'Error creating preview link' },
+      { status: 500 }
+    )
+  }
+}
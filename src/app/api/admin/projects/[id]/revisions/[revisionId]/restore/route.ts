@@ -0,0 +1,64 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { requireAdmin } from '@/lib/admin-users'
+import { recordAuditEvent } from '@/lib/audit'
+import { getRevision, restoreData, saveWithRevision } from '@/lib/revisions'
+import { revalidateProject } from '@/lib/revalidate'
+
+// POST to put a project back to an earlier revision. The restore is saved as
+// a new revision, so it can itself be undone.
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string; revisionId: string } }
+) {
+  try {
+    const { admin, error } = await requireAdmin('projects:manage')
+    if (error) return error
+
+    const existingProject = await prisma.project.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existingProject) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const revision = await getRevision('Project', params.id, params.revisionId)
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      )
+    }
+
+    const restoredProject = await saveWithRevision(
+      tx => tx.project.update({
+        where: { id: params.id },
+        data: restoreData('Project', revision.snapshot) as Prisma.ProjectUpdateInput,
+      }),
+      { entityType: 'Project', before: existingProject, author: admin, restoredFrom: revision.number }
+    )
+
+    await recordAuditEvent({
+      actor: admin,
+      action: 'UPDATE',
+      entityType: 'Project',
+      before: existingProject,
+      after: restoredProject,
+    })
+    revalidateProject(existingProject.slug, restoredProject.slug)
+
+    return NextResponse.json(restoredProject)
+  } catch (error) {
+    console.error('Error restoring revision:', error)
+    return NextResponse.json(
+      { error: 'Error restoring revision' },
+      { status: 500 }
+    )
+  }
+}
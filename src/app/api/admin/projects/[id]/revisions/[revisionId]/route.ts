@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { getRevision } from '@/lib/revisions'
+
+// GET a single revision of a project, including its snapshot
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string; revisionId: string } }
+) {
+  try {
+    const { error } = await requireAdmin('projects:manage')
+    if (error) return error
+
+    const revision = await getRevision('Project', params.id, params.revisionId)
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(revision)
+  } catch (error) {
+    console.error('Error fetching revision:', error)
+    return NextResponse.json(
+      { error: 'Error fetching revision' },
+      { status: 500 }
+    )
+  }
+}
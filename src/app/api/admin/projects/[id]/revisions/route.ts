@@ -0,0 +1,35 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { listRevisions } from '@/lib/revisions'
+
+// GET the revision history of a project
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { error } = await requireAdmin('projects:manage')
+    if (error) return error
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(await listRevisions('Project', params.id))
+  } catch (error) {
+    console.error('Error fetching revisions:', error)
+    return NextResponse.json(
+      { error: 'Error fetching revisions' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,10 @@
 import { prisma } from '@/lib/db'
 import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { checkSchedule, invalidFields, parsePartialBody, projectSchema } from '@/lib/validation'
+import { recordAuditEvent, updateAction } from '@/lib/audit'
+import { saveWithRevision } from '@/lib/revisions'
+import { revalidateProject } from '@/lib/revalidate'
 
 // GET a single project by ID
 export async function GET(
@@ -7,6 +12,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { error } = await requireAdmin('projects:manage')
+    if (error) return error
+
     const project = await prisma.project.findUnique({
       where: { id: params.id },
     })
@@ -34,7 +42,11 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const body = await request.json()
+    const { admin, error } = await requireAdmin('projects:manage')
+    if (error) return error
+
+    const { data, error: invalid } = await parsePartialBody(request, projectSchema)
+    if (invalid) return invalid
     
     // Validate the project exists
     const existingProject = await prisma.project.findUnique({
@@ -48,11 +60,29 @@ export async function PATCH(
       )
     }
 
+    const scheduleErrors = checkSchedule({
+      publishAt: data.publishAt !== undefined ? data.publishAt : existingProject.publishAt,
+      unpublishAt: data.unpublishAt !== undefined ? data.unpublishAt : existingProject.unpublishAt,
+    })
+    if (scheduleErrors) return invalidFields(scheduleErrors)
+
     // Update the project
-    const updatedProject = await prisma.project.update({
-      where: { id: params.id },
-      data: body,
+    const updatedProject = await saveWithRevision(
+      tx => tx.project.update({
+        where: { id: params.id },
+        data,
+      }),
+      { entityType: 'Project', before: existingProject, author: admin }
+    )
+
+    await recordAuditEvent({
+      actor: admin,
+      action: updateAction(existingProject, updatedProject),
+      entityType: 'Project',
+      before: existingProject,
+      after: updatedProject,
     })
+    revalidateProject(existingProject.slug, updatedProject.slug)
 
     return NextResponse.json(updatedProject)
   } catch (error) {
@@ -70,6 +100,9 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { admin, error } = await requireAdmin('projects:manage')
+    if (error) return error
+
     // Validate the project exists
     const project = await prisma.project.findUnique({
       where: { id: params.id },
@@ -87,6 +120,9 @@ export async function DELETE(
       where: { id: params.id },
     })
 
+    await recordAuditEvent({ actor: admin, action: 'DELETE', entityType: 'Project', before: project, after: null })
+    revalidateProject(project.slug)
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error deleting project:', error)
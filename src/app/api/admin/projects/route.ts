@@ -1,19 +1,24 @@
 import { prisma } from '@/lib/db'
 import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
 import slugify from 'slugify'
+import { checkSchedule, invalidFields, parseBody, projectSchema } from '@/lib/validation'
+import { recordAuditEvent } from '@/lib/audit'
+import { saveWithRevision } from '@/lib/revisions'
+import { revalidateProject } from '@/lib/revalidate'
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json()
-    const { 
-      title, 
-      description, 
-      content,
-      githubUrl, 
-      demoUrl, 
-      technologies, 
-      featured 
-    } = body
+    const { admin, error } = await requireAdmin('projects:manage')
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, projectSchema)
+    if (invalid) return invalid
+
+    const scheduleErrors = checkSchedule(data)
+    if (scheduleErrors) return invalidFields(scheduleErrors)
+
+    const { title } = data
 
     // Create a unique slug from the title
     const baseSlug = slugify(title, { lower: true, strict: true })
@@ -35,20 +40,19 @@ export async function POST(request: Request) {
       : baseSlug
 
     try {
-      const project = await prisma.project.create({
-        data: {
-          title,
-          description,
-          content,
-          slug,
-          imageUrl: null, // Not used in current UI
-          repoUrl: githubUrl || null,
-          demoUrl: demoUrl || null,
-          technologies: technologies || [],
-          featured: featured || false,
-          published: true, // Default to published
-        },
-      })
+      const project = await saveWithRevision(
+        tx => tx.project.create({
+          data: {
+            ...data,
+            slug,
+          },
+        }),
+        { entityType: 'Project', author: admin }
+      )
+
+      await recordAuditEvent({ actor: admin, action: 'CREATE', entityType: 'Project', before: null, after: project })
+      revalidateProject(project.slug)
+
       return NextResponse.json(project)
     } catch (error) {
       // If prisma isn't properly set up for the Project model, inform the user
@@ -69,6 +73,9 @@ export async function POST(request: Request) {
 
 export async function GET() {
   try {
+    const { error } = await requireAdmin('projects:manage')
+    if (error) return error
+
     // Check if the Project model exists before querying
     let projects = []
     try {
@@ -83,6 +90,8 @@ export async function GET() {
           technologies: true,
           featured: true,
           published: true,
+          publishAt: true,
+          unpublishAt: true,
           createdAt: true,
         },
       })
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAdmin } from '@/lib/admin-users'
+import { clearSessionCookies, revokeSession } from '@/lib/sessions'
+
+// DELETE one of the signed-in admin's sessions
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const session = await prisma.session.findUnique({
+      where: { id: params.id },
+      select: { id: true, userId: true },
+    })
+
+    if (!session || session.userId !== admin.id) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    await revokeSession(session.id)
+
+    if (session.id === admin.sessionId) {
+      clearSessionCookies()
+    }
+
+    return NextResponse.json({ success: true, current: session.id === admin.sessionId })
+  } catch (error) {
+    console.error('Error revoking session:', error)
+    return NextResponse.json(
+      { error: 'Error revoking session' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { clearSessionCookies, refreshSession } from '@/lib/sessions'
+
+// Only redirect back into the admin area, never to another site
+function safeNextPath(next: string | null) {
+  return next && /^\/admin(\/|$|\?)/.test(next) ? next : '/admin/dashboard'
+}
+
+// POST from the admin UI when an API call comes back 401
+export async function POST(request: Request) {
+  try {
+    if (!(await refreshSession(request))) {
+      clearSessionCookies()
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error refreshing session:', error)
+    return NextResponse.json(
+      { error: 'Error refreshing session' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET from the middleware when a page is requested with an expired access
+// token. Redirects back to the page, or to the login page.
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+
+  try {
+    if (await refreshSession(request)) {
+      return NextResponse.redirect(new URL(safeNextPath(url.searchParams.get('next')), url))
+    }
+  } catch (error) {
+    console.error('Error refreshing session:', error)
+  }
+
+  clearSessionCookies()
+  return NextResponse.redirect(new URL('/admin/login', url))
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAdmin } from '@/lib/admin-users'
+import { clearSessionCookies, revokeUserSessions } from '@/lib/sessions'
+
+// GET the signed-in admin's active sessions
+export async function GET() {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId: admin.id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ip: true,
+        lastSeenAt: true,
+        createdAt: true,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    })
+
+    return NextResponse.json(
+      sessions.map(session => ({ ...session, current: session.id === admin.sessionId }))
+    )
+  } catch (error) {
+    console.error('Error fetching sessions:', error)
+    return NextResponse.json(
+      { error: 'Error fetching sessions' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE every session of the signed-in admin ("sign out everywhere")
+export async function DELETE() {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    await revokeUserSessions(admin.id)
+    clearSessionCookies()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking sessions:', error)
+    return NextResponse.json(
+      { error: 'Error revoking sessions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { ADMIN_TOKEN_COOKIE, verifyAdminToken } from '@/lib/auth'
+import { getActiveSession, touchSession } from '@/lib/sessions'
+
+// Called by the middleware, which runs on the edge and can't reach the
+// database itself, to check that the session behind an access token is
+// still active
+export async function GET() {
+  try {
+    const payload = await verifyAdminToken(cookies().get(ADMIN_TOKEN_COOKIE)?.value)
+    const session = payload ? await getActiveSession(payload.sid) : null
+
+    if (!session || session.userId !== payload?.sub) {
+      return NextResponse.json({ active: false }, { status: 401 })
+    }
+
+    await touchSession(session)
+
+    return NextResponse.json({ active: true })
+  } catch (error) {
+    console.error('Error verifying session:', error)
+    return NextResponse.json(
+      { error: 'Error verifying session' },
+      { status: 500 }
+    )
+  }
+}
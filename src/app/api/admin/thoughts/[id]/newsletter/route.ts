@@ -0,0 +1,75 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-users'
+import { newsletterStatus, queueNewsletter, sendNewsletterBatch } from '@/lib/newsletter'
+import { liveWhere } from '@/lib/publishing'
+
+// GET the subscriber count and, if the thought was sent, how far along it is
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { error } = await requireAdmin('thoughts:publish')
+    if (error) return error
+
+    return NextResponse.json(await newsletterStatus(params.id))
+  } catch (error) {
+    console.error('Error fetching newsletter status:', error)
+    return NextResponse.json(
+      { error: 'Error fetching newsletter status' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST queues the thought for every confirmed subscriber (once) and sends the
+// next batch. The admin page repeats the call until nothing is pending.
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { admin, error } = await requireAdmin('thoughts:publish')
+    if (error) return error
+
+    const thought = await prisma.blogPost.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    })
+
+    if (!thought) {
+      return NextResponse.json(
+        { error: 'Thought not found' },
+        { status: 404 }
+      )
+    }
+
+    const existing = await prisma.newsletterIssue.findUnique({ where: { postId: thought.id } })
+
+    // Subscribers get a link, so the thought has to be readable
+    if (!existing) {
+      const live = await prisma.blogPost.count({ where: { id: thought.id, ...liveWhere() } })
+      if (!live) {
+        return NextResponse.json(
+          { error: 'Only published thoughts can be sent to subscribers' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const issue = existing ?? await queueNewsletter(thought.id, admin.id)
+
+    if (!issue.completedAt) {
+      await sendNewsletterBatch(issue.id)
+    }
+
+    return NextResponse.json(await newsletterStatus(thought.id))
+  } catch (error) {
+    console.error('Error sending newsletter:', error)
+    return NextResponse.json(
+      { error: 'Error sending newsletter' },
+      { status: 500 }
+    )
+  }
+}
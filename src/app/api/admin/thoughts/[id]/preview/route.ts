@@ -0,0 +1,51 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { forbidden, requireAdmin } from '@/lib/admin-users'
+import { hasPermission } from '@/lib/permissions'
+import { signPreviewToken, verifyPreviewToken } from '@/lib/auth'
+import { parseBody, previewLinkSchema } from '@/lib/validation'
+
+// POST creates a shareable preview link for a thought
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, previewLinkSchema)
+    if (invalid) return invalid
+
+    const thought = await prisma.blogPost.findUnique({
+      where: { id: params.id },
+      select: { id: true, slug: true, authorId: true },
+    })
+
+    if (!thought) {
+      return NextResponse.json(
+        { error: 'Thought not found' },
+        { status: 404 }
+      )
+    }
+
+    // Same rule as editing: authors can share previews of their own thoughts
+    if (!hasPermission(admin.role, 'thoughts:edit-any') && thought.authorId !== admin.id) {
+      return forbidden('You can only share previews of thoughts you wrote')
+    }
+
+    const token = await signPreviewToken('BlogPost', thought.id, data.expiresIn)
+    const { expiresAt } = (await verifyPreviewToken(token))!
+
+    return NextResponse.json({
+      url: `/thoughts/${thought.slug}?preview=${token}`,
+      expiresAt,
+    })
+  } catch (error) {
+    console.error('Error creating preview link:', error)
+    return NextResponse.json(
+      { error: 'Error creating preview link' },
+      { status: 500 }
+    )
+  }
+}
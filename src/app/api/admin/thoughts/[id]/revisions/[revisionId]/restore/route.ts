@@ -0,0 +1,76 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { forbidden, requireAdmin } from '@/lib/admin-users'
+import { hasPermission } from '@/lib/permissions'
+import { recordAuditEvent } from '@/lib/audit'
+import { getRevision, restoreData, saveWithRevision } from '@/lib/revisions'
+import { revalidateThought } from '@/lib/revalidate'
+import { updateThoughtLinks } from '@/lib/wiki-links'
+
+// POST to put a thought back to an earlier revision. The restore is saved as
+// a new revision, so it can itself be undone.
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string; revisionId: string } }
+) {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const existingThought = await prisma.blogPost.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existingThought) {
+      return NextResponse.json(
+        { error: 'Thought not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!hasPermission(admin.role, 'thoughts:edit-any') && existingThought.authorId !== admin.id) {
+      return forbidden('You can only edit thoughts you wrote')
+    }
+
+    // A restore changes a published thought just like an edit does
+    if (existingThought.published && !hasPermission(admin.role, 'thoughts:publish')) {
+      return forbidden('Your role does not allow editing published or scheduled thoughts')
+    }
+
+    const revision = await getRevision('BlogPost', params.id, params.revisionId)
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      )
+    }
+
+    const restoredThought = await saveWithRevision(
+      tx => tx.blogPost.update({
+        where: { id: params.id },
+        data: restoreData('BlogPost', revision.snapshot) as Prisma.BlogPostUpdateInput,
+      }),
+      { entityType: 'BlogPost', before: existingThought, author: admin, restoredFrom: revision.number }
+    )
+
+    await recordAuditEvent({
+      actor: admin,
+      action: 'UPDATE',
+      entityType: 'BlogPost',
+      before: existingThought,
+      after: restoredThought,
+    })
+    const linkedSlugs = await updateThoughtLinks(existingThought, restoredThought)
+    revalidateThought(existingThought.slug, restoredThought.slug, ...linkedSlugs)
+
+    return NextResponse.json(restoredThought)
+  } catch (error) {
+    console.error('Error restoring revision:', error)
+    return NextResponse.json(
+      { error: 'Error restoring revision' },
+      { status: 500 }
+    )
+  }
+}
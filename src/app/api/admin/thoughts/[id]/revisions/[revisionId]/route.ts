@@ -0,0 +1,49 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { forbidden, requireAdmin } from '@/lib/admin-users'
+import { hasPermission } from '@/lib/permissions'
+import { getRevision } from '@/lib/revisions'
+
+// GET a single revision of a thought, including its snapshot
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string; revisionId: string } }
+) {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const thought = await prisma.blogPost.findUnique({
+      where: { id: params.id },
+      select: { id: true, authorId: true },
+    })
+
+    if (!thought) {
+      return NextResponse.json(
+        { error: 'Thought not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!hasPermission(admin.role, 'thoughts:edit-any') && thought.authorId !== admin.id) {
+      return forbidden('You can only view the history of thoughts you wrote')
+    }
+
+    const revision = await getRevision('BlogPost', params.id, params.revisionId)
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(revision)
+  } catch (error) {
+    console.error('Error fetching revision:', error)
+    return NextResponse.json(
+      { error: 'Error fetching revision' },
+      { status: 500 }
+    )
+  }
+}
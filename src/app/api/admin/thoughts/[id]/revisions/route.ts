@@ -0,0 +1,41 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { forbidden, requireAdmin } from '@/lib/admin-users'
+import { hasPermission } from '@/lib/permissions'
+import { listRevisions } from '@/lib/revisions'
+
+// GET the revision history of a thought
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const thought = await prisma.blogPost.findUnique({
+      where: { id: params.id },
+      select: { id: true, authorId: true },
+    })
+
+    if (!thought) {
+      return NextResponse.json(
+        { error: 'Thought not found' },
+        { status: 404 }
+      )
+    }
+
+    // Same rule as editing: authors only see the history of their own thoughts
+    if (!hasPermission(admin.role, 'thoughts:edit-any') && thought.authorId !== admin.id) {
+      return forbidden('You can only view the history of thoughts you wrote')
+    }
+
+    return NextResponse.json(await listRevisions('BlogPost', params.id))
+  } catch (error) {
+    console.error('Error fetching revisions:', error)
+    return NextResponse.json(
+      { error: 'Error fetching revisions' },
+      { status: 500 }
+    )
+  }
+}
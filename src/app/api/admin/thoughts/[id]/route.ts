@@ -1,5 +1,16 @@
 import { prisma } from '@/lib/db'
 import { NextResponse } from 'next/server'
+import { forbidden, requireAdmin } from '@/lib/admin-users'
+import { hasPermission } from '@/lib/permissions'
+import { blogPostSchema, checkSchedule, invalidFields, parsePartialBody } from '@/lib/validation'
+import { recordAuditEvent, updateAction } from '@/lib/audit'
+import { saveWithRevision } from '@/lib/revisions'
+import { revalidateThought } from '@/lib/revalidate'
+import { linkedThoughtSlugs, refreshLinkTargets, updateThoughtLinks } from '@/lib/wiki-links'
+
+function sameTime(a: Date | null, b: Date | null) {
+  return (a?.getTime() ?? null) === (b?.getTime() ?? null)
+}
 
 // GET a single thought by ID
 export async function GET(
@@ -34,7 +45,11 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const body = await request.json()
+    const { admin, error } = await requireAdmin()
+    if (error) return error
+
+    const { data, error: invalid } = await parsePartialBody(request, blogPostSchema)
+    if (invalid) return invalid
     
     // Validate the thought exists
     const existingThought = await prisma.blogPost.findUnique({
@@ -48,11 +63,55 @@ export async function PATCH(
       )
     }
 
+    // Authors may only edit their own thoughts
+    if (!hasPermission(admin.role, 'thoughts:edit-any') && existingThought.authorId !== admin.id) {
+      return forbidden('You can only edit thoughts you wrote')
+    }
+
+    // Once a thought is published or scheduled, edits go out as soon as they
+    // are saved, so they need someone who could have published them
+    if (existingThought.published && !hasPermission(admin.role, 'thoughts:publish')) {
+      return forbidden('Your role does not allow editing published or scheduled thoughts')
+    }
+
+    const publishedChanged =
+      data.published !== undefined && data.published !== existingThought.published
+    if (publishedChanged && !hasPermission(admin.role, 'thoughts:publish')) {
+      return forbidden('Your role does not allow publishing or unpublishing thoughts')
+    }
+
+    // Moving the publish window publishes or unpublishes just the same
+    const scheduleChanged =
+      (data.publishAt !== undefined && !sameTime(data.publishAt, existingThought.publishAt)) ||
+      (data.unpublishAt !== undefined && !sameTime(data.unpublishAt, existingThought.unpublishAt))
+    if (scheduleChanged && !hasPermission(admin.role, 'thoughts:publish')) {
+      return forbidden('Your role does not allow scheduling thoughts')
+    }
+
+    const scheduleErrors = checkSchedule({
+      publishAt: data.publishAt !== undefined ? data.publishAt : existingThought.publishAt,
+      unpublishAt: data.unpublishAt !== undefined ? data.unpublishAt : existingThought.unpublishAt,
+    })
+    if (scheduleErrors) return invalidFields(scheduleErrors)
+
     // Update the thought
-    const updatedThought = await prisma.blogPost.update({
-      where: { id: params.id },
-      data: body,
+    const updatedThought = await saveWithRevision(
+      tx => tx.blogPost.update({
+        where: { id: params.id },
+        data,
+      }),
+      { entityType: 'BlogPost', before: existingThought, author: admin }
+    )
+
+    await recordAuditEvent({
+      actor: admin,
+      action: updateAction(existingThought, updatedThought),
+      entityType: 'BlogPost',
+      before: existingThought,
+      after: updatedThought,
     })
+    const linkedSlugs = await updateThoughtLinks(existingThought, updatedThought)
+    revalidateThought(existingThought.slug, updatedThought.slug, ...linkedSlugs)
 
     return NextResponse.json(updatedThought)
   } catch (error) {
@@ -70,6 +129,9 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { admin, error } = await requireAdmin('thoughts:delete')
+    if (error) return error
+
     // Validate the thought exists
     const thought = await prisma.blogPost.findUnique({
       where: { id: params.id },
@@ -82,10 +144,17 @@ export async function DELETE(
       )
     }
 
+    // Its own links go with it; links to it are pointed elsewhere or broken
+    const linkedSlugs = await linkedThoughtSlugs(thought.id)
+
     // Delete the thought
     await prisma.blogPost.delete({
       where: { id: params.id },
     })
+    await refreshLinkTargets(thought)
+
+    await recordAuditEvent({ actor: admin, action: 'DELETE', entityType: 'BlogPost', before: thought, after: null })
+    revalidateThought(thought.slug, ...linkedSlugs)
 
     return NextResponse.json({ success: true })
   } catch (error) {
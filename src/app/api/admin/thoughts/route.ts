@@ -1,11 +1,33 @@
 import { prisma } from '@/lib/db'
 import { NextResponse } from 'next/server'
 import slugify from 'slugify'
+import { forbidden, requireAdmin } from '@/lib/admin-users'
+import { hasPermission } from '@/lib/permissions'
+import { blogPostSchema, checkSchedule, invalidFields, parseBody } from '@/lib/validation'
+import { recordAuditEvent } from '@/lib/audit'
+import { saveWithRevision } from '@/lib/revisions'
+import { revalidateThought } from '@/lib/revalidate'
+import { updateThoughtLinks } from '@/lib/wiki-links'
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json()
-    const { title, content, excerpt, tags, published } = body
+    const { admin, error } = await requireAdmin('thoughts:create')
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, blogPostSchema)
+    if (invalid) return invalid
+
+    const { title, content, excerpt, tags, published, publishAt, unpublishAt } = data
+
+    if (published && !hasPermission(admin.role, 'thoughts:publish')) {
+      return forbidden('Authors cannot publish thoughts. Save it as a draft for an editor to publish.')
+    }
+    if ((publishAt || unpublishAt) && !hasPermission(admin.role, 'thoughts:publish')) {
+      return forbidden('Authors cannot schedule thoughts. Leave the dates empty for an editor to set.')
+    }
+
+    const scheduleErrors = checkSchedule(data)
+    if (scheduleErrors) return invalidFields(scheduleErrors)
 
     // Create a unique slug from the title
     const baseSlug = slugify(title, { lower: true, strict: true })
@@ -20,16 +42,26 @@ export async function POST(request: Request) {
       ? `${baseSlug}-${Date.now().toString().substring(9, 13)}` 
       : baseSlug
 
-    const post = await prisma.blogPost.create({
-      data: {
-        title,
-        content,
-        slug,
-        excerpt: excerpt || null,
-        tags: tags || [],
-        published: published || false,
-      },
-    })
+    const post = await saveWithRevision(
+      tx => tx.blogPost.create({
+        data: {
+          title,
+          content,
+          slug,
+          excerpt,
+          tags,
+          published,
+          publishAt,
+          unpublishAt,
+          authorId: admin.id,
+        },
+      }),
+      { entityType: 'BlogPost', author: admin }
+    )
+
+    await recordAuditEvent({ actor: admin, action: 'CREATE', entityType: 'BlogPost', before: null, after: post })
+    const linkedSlugs = await updateThoughtLinks(null, post)
+    revalidateThought(post.slug, ...linkedSlugs)
 
     return NextResponse.json(post)
   } catch (error) {
@@ -52,6 +84,9 @@ export async function GET() {
         excerpt: true,
         tags: true,
         published: true,
+        publishAt: true,
+        unpublishAt: true,
+        authorId: true,
         createdAt: true,
       },
     })
@@ -0,0 +1,89 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { adminUserSelect, requireAdmin } from '@/lib/admin-users'
+import { hashPassword } from '@/lib/password'
+import { loginThrottle } from '@/lib/login-throttle'
+import { revokeUserSessions } from '@/lib/sessions'
+import { adminUserUpdateSchema, invalidFields, parsePartialBody } from '@/lib/validation'
+
+// PATCH (update) an admin account: change its role, enable/disable it,
+// reset its password or two-factor enrollment, or lift a failed-login lockout
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { admin, error } = await requireAdmin('users:manage')
+    if (error) return error
+
+    const { data: changes, error: invalid } = await parsePartialBody(request, adminUserUpdateSchema)
+    if (invalid) return invalid
+
+    // Validate the user exists
+    const existingUser = await prisma.adminUser.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existingUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Owners can't demote themselves, so there is always at least one owner
+    if (changes.role !== undefined && changes.role !== 'OWNER' && admin.id === params.id) {
+      return invalidFields({ role: 'You cannot remove your own owner role' })
+    }
+
+    // Prevent locking yourself out of the admin area
+    if (changes.disabled && admin.id === params.id) {
+      return invalidFields({ disabled: 'You cannot disable your own account' })
+    }
+
+    const data: Prisma.AdminUserUpdateInput = {
+      role: changes.role,
+      disabled: changes.disabled,
+    }
+
+    if (changes.password !== undefined) {
+      data.passwordHash = await hashPassword(changes.password)
+    }
+
+    // For editors who lost their authenticator and recovery codes
+    if (changes.resetTwoFactor) {
+      data.totpSecret = null
+      data.totpEnabledAt = null
+      data.totpLastUsedStep = null
+      data.recoveryCodeHashes = []
+    }
+
+    if (changes.unlock) {
+      await loginThrottle.unlock(existingUser.username)
+    }
+
+    // Update the user
+    const updatedUser = await prisma.adminUser.update({
+      where: { id: params.id },
+      data,
+      select: adminUserSelect,
+    })
+
+    // A disabled account or a reset password signs the user out everywhere
+    if (data.disabled === true || data.passwordHash) {
+      await revokeUserSessions(updatedUser.id)
+    }
+
+    return NextResponse.json({
+      ...updatedUser,
+      locked: await loginThrottle.isLocked(updatedUser.username),
+    })
+  } catch (error) {
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { error: 'Error updating user' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { prisma } from '@/lib/db'
+import { NextResponse } from 'next/server'
+import { adminUserSelect, requireAdmin } from '@/lib/admin-users'
+import { hashPassword } from '@/lib/password'
+import { loginThrottle } from '@/lib/login-throttle'
+import { adminUserSchema, parseBody } from '@/lib/validation'
+
+// GET all admin accounts
+export async function GET() {
+  try {
+    const { error } = await requireAdmin('users:manage')
+    if (error) return error
+
+    const users = await prisma.adminUser.findMany({
+      orderBy: { createdAt: 'asc' },
+      select: adminUserSelect,
+    })
+
+    // Lockouts live in the rate limit store rather than the database
+    const usersWithLockState = await Promise.all(
+      users.map(async user => ({
+        ...user,
+        locked: await loginThrottle.isLocked(user.username),
+      }))
+    )
+
+    return NextResponse.json(usersWithLockState)
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { error: 'Error fetching users' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST (create) an admin account
+export async function POST(request: Request) {
+  try {
+    const { error } = await requireAdmin('users:manage')
+    if (error) return error
+
+    const { data, error: invalid } = await parseBody(request, adminUserSchema)
+    if (invalid) return invalid
+
+    const { username, password, role } = data
+
+    const existingUser = await prisma.adminUser.findUnique({
+      where: { username },
+    })
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'A user with this username already exists', fieldErrors: { username: 'This username is taken' } },
+        { status: 409 }
+      )
+    }
+
+    const user = await prisma.adminUser.create({
+      data: {
+        username,
+        passwordHash: await hashPassword(password),
+        role,
+      },
+      select: adminUserSelect,
+    })
+
+    return NextResponse.json({ ...user, locked: false })
+  } catch (error) {
+    console.error('Error creating user:', error)
+    return NextResponse.json(
+      { error: 'Error creating user' },
+      { status: 500 }
+    )
+  }
+}
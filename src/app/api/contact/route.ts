@@ -0,0 +1,49 @@
+import { prisma } from '@/lib/db';
+import { NextResponse } from 'next/server';
+import { contactLimiter } from '@/lib/contact';
+import { notifyContactMessage } from '@/lib/notifications';
+import { getClientIp } from '@/lib/rate-limit';
+import { contactMessageSchema, parseBody } from '@/lib/validation';
+
+// POST a message from the contact form
+export async function POST(request: Request) {
+  try {
+    const { data, error: invalid } = await parseBody(request, contactMessageSchema);
+    if (invalid) return invalid;
+
+    const { website, ...message } = data;
+
+    // Only bots fill in the hidden field. Tell them it worked so they move on.
+    if (website) {
+      return NextResponse.json({ success: true });
+    }
+
+    const ip = getClientIp(request);
+    const limit = await contactLimiter.consume(`contact:${ip}`);
+
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many messages. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      );
+    }
+
+    const saved = await prisma.contactMessage.create({
+      data: {
+        ...message,
+        ip,
+        userAgent: request.headers.get('user-agent'),
+      },
+    });
+
+    await notifyContactMessage(saved);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving contact message:', error);
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    );
+  }
+}
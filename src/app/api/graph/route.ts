@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { buildKnowledgeGraph } from '@/lib/graph';
+
+// Built once and shared by every visitor. Admin saves rebuild it straight
+// away (see src/lib/revalidate.ts); the interval picks up scheduled publish
+// and unpublish times.
+export const revalidate = 300;
+
+// GET the graph of live thoughts, projects and tags for /graph
+export async function GET() {
+  try {
+    const graph = await buildKnowledgeGraph();
+    return NextResponse.json(graph);
+  } catch (error) {
+    console.error('Error building graph:', error);
+    return NextResponse.json({ error: 'Failed to build graph' }, { status: 500 });
+  }
+}
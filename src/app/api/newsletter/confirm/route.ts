@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { confirmSubscription } from '@/lib/newsletter';
+
+// POST from the button on /newsletter/confirm, with the token from the
+// confirmation email
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const subscriber = await confirmSubscription(searchParams.get('token'));
+
+    if (!subscriber) {
+      return NextResponse.json(
+        { error: 'This confirmation link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error confirming subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { subscribe, subscribeLimiter } from '@/lib/newsletter';
+import { getClientIp } from '@/lib/rate-limit';
+import { parseBody, subscribeSchema } from '@/lib/validation';
+
+// POST an email address from the subscribe form. The answer is the same for
+// new and existing subscribers; only the confirmation email differs.
+export async function POST(request: Request) {
+  try {
+    const { data, error: invalid } = await parseBody(request, subscribeSchema);
+    if (invalid) return invalid;
+
+    // Only bots fill in the hidden field. Tell them it worked so they move on.
+    if (data.website) {
+      return NextResponse.json({ success: true });
+    }
+
+    const ip = getClientIp(request);
+    const limit = await subscribeLimiter.consume(`subscribe:${ip}`);
+
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many sign-ups. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      );
+    }
+
+    await subscribe(data.email, ip);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error subscribing:', error);
+    return NextResponse.json(
+      { error: 'Failed to subscribe' },
+      { status: 500 }
+    );
+  }
+}
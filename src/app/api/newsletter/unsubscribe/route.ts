@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { unsubscribe } from '@/lib/newsletter';
+
+// POST from a mail client's unsubscribe button (the List-Unsubscribe header
+// on newsletter emails) and from the button on /newsletter/unsubscribe, where
+// the link in the email leads
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const subscriber = await unsubscribe(searchParams.get('token'));
+
+    if (!subscriber) {
+      return NextResponse.json(
+        { error: 'Invalid unsubscribe link' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    return NextResponse.json(
+      { error: 'Failed to unsubscribe' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { prisma } from '@/lib/db';
+import { NextResponse } from 'next/server';
+import { MAX_COMMENT_LINKS, commentLimiter, countLinks, isBannedEmail } from '@/lib/comments';
+import { liveWhere } from '@/lib/publishing';
+import { getClientIp } from '@/lib/rate-limit';
+import { commentSchema, invalidFields, parseBody } from '@/lib/validation';
+
+// POST a comment on a live thought. It is stored as pending and only appears
+// on the page once a moderator approves it.
+export async function POST(
+  request: Request,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const { data, error: invalid } = await parseBody(request, commentSchema);
+    if (invalid) return invalid;
+
+    const { website, parentId, ...comment } = data;
+    const authorEmail = comment.email.toLowerCase();
+
+    // Only bots fill in the hidden field, and banned addresses are dropped
+    // quietly. Tell both it worked so they move on.
+    if (website || await isBannedEmail(authorEmail)) {
+      return NextResponse.json({ success: true });
+    }
+
+    if (countLinks(comment.body) > MAX_COMMENT_LINKS) {
+      return invalidFields({ body: `Comments can contain at most ${MAX_COMMENT_LINKS} links` });
+    }
+
+    const post = await prisma.blogPost.findFirst({
+      where: { slug: params.slug, ...liveWhere() },
+      select: { id: true },
+    });
+
+    if (!post) {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      );
+    }
+
+    // Replies can only answer approved comments on the same thought
+    if (parentId) {
+      const parent = await prisma.comment.findFirst({
+        where: { id: parentId, postId: post.id, status: 'APPROVED' },
+        select: { id: true },
+      });
+
+      if (!parent) {
+        return invalidFields({ parentId: 'The comment you are replying to is no longer available' });
+      }
+    }
+
+    // Charged only for comments that would be stored, so requests for missing
+    // or unpublished thoughts don't use up anyone's allowance
+    const ip = getClientIp(request);
+    const limit = await commentLimiter.consume(`comment:${ip}`);
+
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many comments. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      );
+    }
+
+    await prisma.comment.create({
+      data: {
+        postId: post.id,
+        parentId,
+        authorName: comment.name,
+        authorEmail,
+        body: comment.body,
+        ip,
+        userAgent: request.headers.get('user-agent'),
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to save comment' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,15 @@
 import { prisma } from '@/lib/db';
 import { NextResponse } from 'next/server';
+import { liveWhere } from '@/lib/publishing';
+import { verifyPreviewToken } from '@/lib/auth';
+import { renderMarkdown } from '@/lib/markdown';
+
+// Adds the headings and reading time of the rendered content, the same ones
+// the thought page shows
+function withOutline<T extends { content: string }>(post: T) {
+  const { headings, readingTime } = renderMarkdown(post.content);
+  return { ...post, toc: headings, readingTime };
+}
 
 export async function GET(
   request: Request,
@@ -15,10 +25,25 @@ export async function GET(
       );
     }
 
-    const post = await prisma.blogPost.findUnique({
+    // A valid preview token for this post shows it whether or not it is live
+    const preview = await verifyPreviewToken(new URL(request.url).searchParams.get('preview'));
+    if (preview?.entityType === 'BlogPost') {
+      const draft = await prisma.blogPost.findUnique({
+        where: { slug }
+      });
+
+      if (draft && draft.id === preview.entityId) {
+        return NextResponse.json(
+          { ...withOutline(draft), preview: { expiresAt: preview.expiresAt } },
+          { headers: { 'Cache-Control': 'no-store', 'X-Robots-Tag': 'noindex' } }
+        );
+      }
+    }
+
+    const post = await prisma.blogPost.findFirst({
       where: {
         slug,
-        published: true
+        ...liveWhere()
       },
     });
 
@@ -29,7 +54,7 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(post);
+    return NextResponse.json(withOutline(post));
   } catch (error) {
     console.error('Error fetching post:', error);
     return NextResponse.json(
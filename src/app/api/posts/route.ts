@@ -1,11 +1,15 @@
 import { prisma } from '@/lib/db';
 import { NextResponse } from 'next/server';
+import { liveWhere } from '@/lib/publishing';
+
+// Evaluated per request so scheduled posts go live on time
+export const dynamic = 'force-dynamic';
 
 export async function GET() {
   try {
     const posts = await prisma.blogPost.findMany({
       where: {
-        published: true
+        ...liveWhere()
       },
       orderBy: {
         createdAt: 'desc'
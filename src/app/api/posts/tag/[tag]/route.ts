@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/db';
 import { NextResponse } from 'next/server';
+import { liveWhere } from '@/lib/publishing';
 
 export async function GET(
   request: Request,
@@ -20,7 +21,7 @@ export async function GET(
         tags: {
           has: tag.toUpperCase() // Assuming tags are stored in uppercase
         },
-        published: true
+        ...liveWhere()
       },
       orderBy: {
         createdAt: 'desc'
@@ -1,7 +1,7 @@
 import { prisma } from '@/lib/db'
 import { NextResponse } from 'next/server'
-import * as fs from 'fs'
-import * as path from 'path'
+import { verifyPreviewToken } from '@/lib/auth'
+import { withContentOverride } from '@/lib/content'
 
 // Define an interface for Project
 interface Project {
@@ -26,6 +26,10 @@ export async function GET(
   { params }: { params: { slug: string } }
 ) {
   try {
+    // A valid preview token for this project shows it whether or not it is live
+    const preview = await verifyPreviewToken(new URL(request.url).searchParams.get('preview'))
+    const previewId = preview?.entityType === 'Project' ? preview.entityId : null
+
     // Using raw query to avoid type errors when schema and DB are out of sync
     try {
       const projects = await prisma.$queryRaw`
@@ -34,7 +38,9 @@ export async function GET(
           "imageUrl", "repoUrl", "demoUrl", featured, "createdAt", content,
           published, "updatedAt"
         FROM "Project"
-        WHERE slug = ${params.slug} AND published = true
+        WHERE slug = ${params.slug} AND (id = ${previewId} OR (published = true
+          AND ("publishAt" IS NULL OR "publishAt" <= NOW() AT TIME ZONE 'UTC')
+          AND ("unpublishAt" IS NULL OR "unpublishAt" > NOW() AT TIME ZONE 'UTC')))
         LIMIT 1
       `
       
@@ -50,19 +56,14 @@ export async function GET(
         )
       }
 
-      // Check if a markdown file exists for this project
-      const markdownPath = path.join(process.cwd(), 'public', 'projects', `${params.slug}.md`)
-      
-      try {
-        if (fs.existsSync(markdownPath)) {
-          // If markdown file exists, use its content
-          const markdownContent = fs.readFileSync(markdownPath, 'utf8')
-          project.content = markdownContent
-          console.log(`Using markdown file for project ${params.slug}`)
-        }
-      } catch (fsError) {
-        console.error('Error reading markdown file:', fsError)
-        // Continue with database content if there's an error reading the file
+      const { content } = await withContentOverride(project)
+      project.content = content
+
+      if (previewId && project.id === previewId) {
+        return NextResponse.json(
+          { ...project, preview: { expiresAt: preview!.expiresAt } },
+          { headers: { 'Cache-Control': 'no-store', 'X-Robots-Tag': 'noindex' } }
+        )
       }
 
       return NextResponse.json(project)
@@ -2,6 +2,9 @@ import { prisma } from '@/lib/db'
 import { NextResponse } from 'next/server'
 import { Prisma } from '@prisma/client'
 
+// Evaluated per request so scheduled projects go live on time
+export const dynamic = 'force-dynamic'
+
 // GET all published projects
 export async function GET() {
   try {
@@ -14,6 +17,8 @@ export async function GET() {
           "imageUrl", "repoUrl", "demoUrl", featured, "createdAt", content
         FROM "Project"
         WHERE published = true
+          AND ("publishAt" IS NULL OR "publishAt" <= NOW() AT TIME ZONE 'UTC')
+          AND ("unpublishAt" IS NULL OR "unpublishAt" > NOW() AT TIME ZONE 'UTC')
         ORDER BY "createdAt" DESC
       `
       
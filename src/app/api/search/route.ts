@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import {
+  MAX_QUERY_LENGTH,
+  MIN_QUERY_LENGTH,
+  SEARCH_TYPES,
+  SearchType,
+  searchContent
+} from '@/lib/search';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// GET /api/search?q=...&type=thought|project&limit=20
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const query = (params.get('q') || '').trim();
+    const type = params.get('type');
+    const limit = Math.min(Math.max(parseInt(params.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search query must be at least ${MIN_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search query must be at most ${MAX_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (type && !(SEARCH_TYPES as readonly string[]).includes(type)) {
+      return NextResponse.json(
+        { error: `Type must be one of ${SEARCH_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await searchContent(query, {
+      types: type ? [type as SearchType] : SEARCH_TYPES,
+      limit
+    });
+
+    return NextResponse.json({ query, results });
+  } catch (error) {
+    console.error('Error searching content:', error);
+    return NextResponse.json({ error: 'Failed to search' }, { status: 500 });
+  }
+}
@@ -1,8 +1,21 @@
+import type { Metadata } from 'next';
+import ContactForm from '@/components/ui/ContactForm';
+import { pageMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = pageMetadata({
+  title: 'Contact',
+  description: 'Interested in collaboration, research opportunities, or discussing innovative ideas? Get in touch.',
+  path: '/contact',
+});
+
 export default function ContactPage() {
   return (
     <div className="min-h-screen bg-zinc-900 p-8">
       <h1 className="text-4xl md:text-5xl font-bold text-white mb-6">Reach Out</h1>
-      {/* Add your contact form or contact information here */}
+      <p className="text-gray-400 mb-8 max-w-2xl">
+        Interested in collaboration, research opportunities, or discussing innovative ideas? Send a message and I&apos;ll get back to you soon.
+      </p>
+      <ContactForm />
     </div>
   );
-} 
\ No newline at end of file
+}
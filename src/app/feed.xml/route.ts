@@ -0,0 +1,8 @@
+import { feedResponse } from '@/lib/feeds'
+
+// Published thoughts, newest first; the window is checked on every request
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return feedResponse('rss')
+}
@@ -0,0 +1,25 @@
+import type { Metadata } from 'next';
+import KnowledgeGraph from '@/components/ui/KnowledgeGraph';
+import { pageMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = pageMetadata({
+  title: 'Graph',
+  description: 'How the thoughts, projects and topics on this site connect.',
+  path: '/graph',
+});
+
+export default function GraphPage() {
+  return (
+    <div className="container">
+      <h1>GRAPH</h1>
+      <div className="brutalist-box">
+        <p>
+          Every thought and project, joined by the tags they share and the links between them. Hover for a preview,
+          click to open, pick a tag to narrow it down.
+        </p>
+      </div>
+
+      <KnowledgeGraph />
+    </div>
+  );
+}
@@ -1,13 +1,32 @@
 import './globals.css'
 import type { Metadata } from 'next'
 import Layout from '@/components/layout/Layout'
+import { SITE_NAME, SITE_DESCRIPTION, SITE_TITLE, siteUrl } from '@/lib/site'
 
 export const metadata: Metadata = {
-  title: 'Łukasz Bartoszcze | Entrepreneur, Builder, Researcher',
-  description: 'Personal website of Łukasz Bartoszcze - Entrepreneur, Builder, Researcher.',
+  metadataBase: new URL(siteUrl()),
+  title: {
+    default: SITE_TITLE,
+    template: `%s | ${SITE_NAME}`,
+  },
+  description: SITE_DESCRIPTION,
+  openGraph: {
+    type: 'website',
+    siteName: SITE_NAME,
+    title: SITE_TITLE,
+    description: SITE_DESCRIPTION,
+  },
   icons: {
     icon: '/favicon.png',
   },
+  // Feed discovery for readers and browsers
+  alternates: {
+    types: {
+      'application/rss+xml': [{ url: '/feed.xml', title: `${SITE_NAME}: thoughts (RSS)` }],
+      'application/atom+xml': [{ url: '/atom.xml', title: `${SITE_NAME}: thoughts (Atom)` }],
+      'application/feed+json': [{ url: '/feed.json', title: `${SITE_NAME}: thoughts (JSON Feed)` }],
+    },
+  },
 }
 
 export default function RootLayout({
@@ -0,0 +1,50 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { canConfirm, subscriberForToken } from '@/lib/newsletter';
+import NewsletterLinkAction from '@/components/ui/NewsletterLinkAction';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Confirm subscription',
+};
+
+// Opened from the link in the confirmation email. The subscription is only
+// confirmed by the button, not by opening the page.
+export default async function ConfirmSubscriptionPage({
+  searchParams,
+}: {
+  searchParams: { token?: string };
+}) {
+  const subscriber = await subscriberForToken('confirm', searchParams.token);
+  const valid = subscriber && canConfirm(subscriber);
+
+  return (
+    <div className="container">
+      {!valid ? (
+        <>
+          <h1>LINK EXPIRED</h1>
+          <div className="brutalist-box">
+            <p>
+              This confirmation link is invalid or has expired. Links are valid for 7 days; sign up again to get a new one.
+            </p>
+          </div>
+        </>
+      ) : subscriber.confirmedAt ? (
+        <>
+          <h1>SUBSCRIBED</h1>
+          <div className="brutalist-box">
+            <p>
+              <strong>{subscriber.email}</strong> is already subscribed. Every email has a link to unsubscribe.
+            </p>
+          </div>
+        </>
+      ) : (
+        <NewsletterLinkAction action="confirm" token={searchParams.token as string} email={subscriber.email} />
+      )}
+      <div className="brutalist-box">
+        <Link href="/thoughts" className="tag">READ THE THOUGHTS →</Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import React from 'react';
+
+// Landing pages for the links in newsletter emails; each only makes sense
+// with its token
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default function NewsletterLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
@@ -0,0 +1,48 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { subscriberForToken } from '@/lib/newsletter';
+import NewsletterLinkAction from '@/components/ui/NewsletterLinkAction';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Unsubscribe',
+};
+
+// Opened from the link at the bottom of every newsletter email. The reader
+// unsubscribes with the button; opening the page changes nothing.
+export default async function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: { token?: string };
+}) {
+  const subscriber = await subscriberForToken('unsubscribe', searchParams.token);
+
+  return (
+    <div className="container">
+      {!subscriber ? (
+        <>
+          <h1>INVALID LINK</h1>
+          <div className="brutalist-box">
+            <p>This unsubscribe link is invalid. Use the link from the most recent email you received.</p>
+          </div>
+        </>
+      ) : subscriber.unsubscribedAt ? (
+        <>
+          <h1>UNSUBSCRIBED</h1>
+          <div className="brutalist-box">
+            <p>
+              <strong>{subscriber.email}</strong> is already unsubscribed.
+              Changed your mind? Subscribe again from any thought.
+            </p>
+          </div>
+        </>
+      ) : (
+        <NewsletterLinkAction action="unsubscribe" token={searchParams.token as string} email={subscriber.email} />
+      )}
+      <div className="brutalist-box">
+        <Link href="/thoughts" className="tag">BACK TO THOUGHTS</Link>
+      </div>
+    </div>
+  );
+}
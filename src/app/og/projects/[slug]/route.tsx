@@ -0,0 +1,38 @@
+import { ImageResponse } from 'next/og'
+import ShareCard from '@/components/content/ShareCard'
+import { getLiveProject } from '@/lib/content'
+import { publishedDate } from '@/lib/publishing'
+import { SHARE_IMAGE_SIZE } from '@/lib/seo'
+import { SITE_NAME } from '@/lib/site'
+
+// Same lifetime as the page it illustrates; saving the project refreshes both
+export const revalidate = 60
+
+export async function GET(
+  request: Request,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const project = await getLiveProject(params.slug)
+
+    if (!project) {
+      return new Response('Project not found', { status: 404 })
+    }
+
+    return new ImageResponse(
+      (
+        <ShareCard
+          kind="PROJECT"
+          title={project.title}
+          tags={project.technologies}
+          date={publishedDate(project)}
+          site={SITE_NAME}
+        />
+      ),
+      SHARE_IMAGE_SIZE
+    )
+  } catch (error) {
+    console.error('Error generating share image:', error)
+    return new Response('Error generating share image', { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { ImageResponse } from 'next/og'
+import ShareCard from '@/components/content/ShareCard'
+import { getLiveThought } from '@/lib/content'
+import { publishedDate } from '@/lib/publishing'
+import { SHARE_IMAGE_SIZE } from '@/lib/seo'
+import { SITE_NAME } from '@/lib/site'
+
+// Same lifetime as the page it illustrates; saving the thought refreshes both
+export const revalidate = 60
+
+export async function GET(
+  request: Request,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const post = await getLiveThought(params.slug)
+
+    if (!post) {
+      return new Response('Thought not found', { status: 404 })
+    }
+
+    return new ImageResponse(
+      (
+        <ShareCard
+          kind="THOUGHT"
+          title={post.title}
+          tags={post.tags}
+          date={publishedDate(post)}
+          site={SITE_NAME}
+        />
+      ),
+      SHARE_IMAGE_SIZE
+    )
+  } catch (error) {
+    console.error('Error generating share image:', error)
+    return new Response('Error generating share image', { status: 500 })
+  }
+}
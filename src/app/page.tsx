@@ -1,68 +1,16 @@
-'use client'
-
-import { useEffect, useState } from "react";
-import { BlogPost } from '@/types/blog';
 import Link from 'next/link';
+import OutboundLink from '@/components/ui/OutboundLink';
+import { listLatestThoughts, listSelectedProjects } from '@/lib/content';
 
-// Define a Project type for TypeScript
-interface Project {
-  id: string;
-  title: string;
-  slug: string;
-  description: string;
-  technologies: string[];
-  imageUrl?: string;
-  repoUrl?: string;
-  demoUrl?: string;
-  featured: boolean;
-  createdAt: string;
-}
-
-export default function Home() {
-  const [blogPosts, setBlogPosts] = useState<BlogPost[]>([]);
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [isThoughtsLoading, setIsThoughtsLoading] = useState(true);
-  const [isProjectsLoading, setIsProjectsLoading] = useState(true);
-
-  useEffect(() => {
-    // Fetch blog posts
-    fetch('/api/posts')
-      .then(res => res.json())
-      .then((data: BlogPost[]) => {
-        setBlogPosts(data);
-        setIsThoughtsLoading(false);
-      })
-      .catch(error => {
-        console.error('Error fetching posts:', error);
-        setIsThoughtsLoading(false);
-      });
-      
-    // Fetch projects
-    fetch('/api/projects')
-      .then(res => res.json())
-      .then((data: Project[]) => {
-        setProjects(data);
-        setIsProjectsLoading(false);
-      })
-      .catch(error => {
-        console.error('Error fetching projects:', error);
-        setIsProjectsLoading(false);
-      });
-  }, []);
+// Rebuilt when an admin saves a thought or project, and at least every minute
+// for scheduled ones
+export const revalidate = 60;
 
-  // Function to render skeleton loaders
-  const renderSkeletons = (count: number) => {
-    return Array(count).fill(0).map((_, index) => (
-      <div key={index} className="project animate-pulse">
-        <div className="h-7 bg-gray-200 rounded w-3/4 mb-4"></div>
-        <div className="h-16 bg-gray-200 rounded w-full mb-4"></div>
-        <div className="flex gap-2">
-          <div className="h-6 bg-gray-200 rounded w-16"></div>
-          <div className="h-6 bg-gray-200 rounded w-24"></div>
-        </div>
-      </div>
-    ));
-  };
+export default async function Home() {
+  const [blogPosts, projects] = await Promise.all([
+    listLatestThoughts(2),
+    listSelectedProjects(2)
+  ]);
 
   return (
     <div className="container">
@@ -84,16 +32,14 @@ export default function Home() {
             <h2>LATEST THOUGHTS →</h2>
           </Link>
           <div className="grid">
-            {isThoughtsLoading ? (
-              renderSkeletons(2)
-            ) : blogPosts && blogPosts.length > 0 ? (
-              blogPosts.slice(0, 2).map((post) => (
+            {blogPosts.length > 0 ? (
+              blogPosts.map((post) => (
                 <Link href={`/thoughts/${post.slug}`} key={post.slug}>
                   <div className="project">
                     <h3>{post.title}</h3>
                     <p>{post.excerpt || 'Click to read more about this topic.'}</p>
                     <div>
-                      {post.tags?.map((tag) => (
+                      {post.tags.map((tag) => (
                         <span key={tag} className="tag">{tag}</span>
                       ))}
                     </div>
@@ -113,48 +59,31 @@ export default function Home() {
             <h2>SELECTED PROJECTS →</h2>
           </Link>
           <div className="grid">
-            {isProjectsLoading ? (
-              renderSkeletons(2)
-            ) : projects && projects.length > 0 ? (
-              // Display featured projects first, then others, up to 2 total
-              projects
-                .sort((a, b) => {
-                  // First by featured status
-                  if (a.featured !== b.featured) return a.featured ? -1 : 1;
-                  // Then by creation date (newest first)
-                  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-                })
-                .slice(0, 2)
-                .map((project) => (
-                  <Link href={`/projects/${project.slug}`} key={project.id}>
-                    <div className="project">
-                      <h3>{project.title}</h3>
-                      <p>{project.description}</p>
-                      <div>
-                        {project.technologies?.map((tech) => (
-                          <span key={tech} className="tag">{tech}</span>
-                        ))}
-                      </div>
-                      {(project.demoUrl || project.repoUrl) && (
-                        <div className="mt-3">
-                          <a 
-                            href={project.demoUrl || project.repoUrl} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="inline-block border-b border-black hover:bg-red-500 hover:text-white hover:border-red-500 px-1"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              e.preventDefault();
-                              window.open(project.demoUrl || project.repoUrl, '_blank');
-                            }}
-                          >
-                            Check it out →
-                          </a>
-                        </div>
-                      )}
+            {projects.length > 0 ? (
+              // Featured projects come first, then the newest
+              projects.map((project) => (
+                <Link href={`/projects/${project.slug}`} key={project.id}>
+                  <div className="project">
+                    <h3>{project.title}</h3>
+                    <p>{project.description}</p>
+                    <div>
+                      {project.technologies.map((tech) => (
+                        <span key={tech} className="tag">{tech}</span>
+                      ))}
                     </div>
-                  </Link>
-                ))
+                    {(project.demoUrl || project.repoUrl) && (
+                      <div className="mt-3">
+                        <OutboundLink
+                          href={(project.demoUrl || project.repoUrl) as string}
+                          className="inline-block border-b border-black hover:bg-red-500 hover:text-white hover:border-red-500 px-1"
+                        >
+                          Check it out →
+                        </OutboundLink>
+                      </div>
+                    )}
+                  </div>
+                </Link>
+              ))
             ) : (
               <div className="col-span-2 text-center py-4">
                 <p>No projects found. Add some in the admin panel.</p>
@@ -208,6 +137,9 @@ export default function Home() {
             <p>
               <a href="mailto:lukasz.bartoszcze@gmail.com">lukasz.bartoszcze@gmail.com</a>
             </p>
+            <p className="mt-4">
+              <Link href="/contact" className="inline-block border-b border-black hover:bg-red-500 hover:text-white hover:border-red-500 px-1">Send a message →</Link>
+            </p>
           </div>
         </section>
       </main>
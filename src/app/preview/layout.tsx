@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import React from 'react';
+
+// Draft previews are reached by rewriting /thoughts/<slug>?preview=<token>
+// and /projects/<slug>?preview=<token> here (see the middleware), so the public
+// pages themselves can stay static
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default function PreviewLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
@@ -0,0 +1,26 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import ProjectArticle from '@/components/content/ProjectArticle';
+import { getPreviewProject } from '@/lib/content';
+
+export const dynamic = 'force-dynamic';
+
+interface ProjectPreviewProps {
+  params: { slug: string };
+  searchParams: { token?: string };
+}
+
+export async function generateMetadata({ params, searchParams }: ProjectPreviewProps): Promise<Metadata> {
+  const draft = await getPreviewProject(params.slug, searchParams.token);
+  return draft ? { title: `Preview: ${draft.project.title}` } : {};
+}
+
+export default async function ProjectPreviewPage({ params, searchParams }: ProjectPreviewProps) {
+  const draft = await getPreviewProject(params.slug, searchParams.token);
+
+  if (!draft) {
+    notFound();
+  }
+
+  return <ProjectArticle project={draft.project} previewExpiresAt={draft.expiresAt} />;
+}
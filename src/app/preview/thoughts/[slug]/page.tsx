@@ -0,0 +1,33 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import ThoughtArticle from '@/components/content/ThoughtArticle';
+import { getPreviewThought } from '@/lib/content';
+import { liveWikiLinks } from '@/lib/wiki-links';
+
+export const dynamic = 'force-dynamic';
+
+interface ThoughtPreviewProps {
+  params: { slug: string };
+  searchParams: { token?: string };
+}
+
+export async function generateMetadata({ params, searchParams }: ThoughtPreviewProps): Promise<Metadata> {
+  const draft = await getPreviewThought(params.slug, searchParams.token);
+  return draft ? { title: `Preview: ${draft.post.title}` } : {};
+}
+
+export default async function ThoughtPreviewPage({ params, searchParams }: ThoughtPreviewProps) {
+  const draft = await getPreviewThought(params.slug, searchParams.token);
+
+  if (!draft) {
+    notFound();
+  }
+
+  return (
+    <ThoughtArticle
+      post={draft.post}
+      previewExpiresAt={draft.expiresAt}
+      resolveWikiLink={await liveWikiLinks()}
+    />
+  );
+}
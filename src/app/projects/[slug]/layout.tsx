@@ -0,0 +1,33 @@
+import type { Metadata } from 'next';
+import React from 'react';
+import { getLiveProject } from '@/lib/content';
+import { publishedDate } from '@/lib/publishing';
+import { articleMetadata } from '@/lib/seo';
+
+interface ProjectLayoutProps {
+  params: { slug: string };
+  children: React.ReactNode;
+}
+
+export async function generateMetadata({ params }: Pick<ProjectLayoutProps, 'params'>): Promise<Metadata> {
+  const project = await getLiveProject(params.slug);
+
+  // The page renders a 404 for anything that isn't live
+  if (!project) {
+    return { robots: { index: false, follow: false } };
+  }
+
+  return articleMetadata({
+    title: project.title,
+    description: project.description,
+    path: `/projects/${project.slug}`,
+    publishedTime: publishedDate(project),
+    modifiedTime: project.updatedAt,
+    tags: project.technologies,
+    image: `/og/projects/${project.slug}`,
+  });
+}
+
+export default function ProjectLayout({ children }: ProjectLayoutProps) {
+  return children;
+}
@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import React from 'react';
+import { pageMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = pageMetadata({
+  title: 'Projects',
+  description: 'A showcase of selected works spanning technology, research, and innovation.',
+  path: '/projects',
+});
+
+export default function ProjectsLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
@@ -0,0 +1,13 @@
+import type { MetadataRoute } from 'next'
+import { absoluteUrl } from '@/lib/site'
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/admin', '/api/admin', '/design-system', '/preview', '/newsletter'],
+    },
+    sitemap: absoluteUrl('/sitemap.xml'),
+  }
+}
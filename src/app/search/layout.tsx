@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import React from 'react';
+
+export const metadata: Metadata = {
+  title: 'Search',
+  // Result pages are endless query variations of content indexed elsewhere
+  robots: { index: false, follow: true },
+};
+
+export default function SearchLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
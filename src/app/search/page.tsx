@@ -0,0 +1,157 @@
+'use client'
+
+import { useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import HighlightedText from '@/components/ui/HighlightedText';
+import { SearchResponse, SearchResult } from '@/types/search';
+
+type TypeFilter = '' | 'thought' | 'project';
+
+const FILTERS: { value: TypeFilter; label: string }[] = [
+  { value: '', label: 'EVERYTHING' },
+  { value: 'thought', label: 'THOUGHTS' },
+  { value: 'project', label: 'PROJECTS' }
+];
+
+// The main component that uses useSearchParams
+function SearchContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const queryParam = searchParams.get('q') || '';
+  const typeParam = (searchParams.get('type') || '') as TypeFilter;
+
+  const [input, setInput] = useState(queryParam);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setInput(queryParam);
+
+    if (queryParam.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const params = new URLSearchParams({ q: queryParam });
+    if (typeParam) params.set('type', typeParam);
+
+    setLoading(true);
+    fetch(`/api/search?${params}`)
+      .then(res => {
+        if (!res.ok) {
+          throw new Error('Search failed');
+        }
+        return res.json();
+      })
+      .then((data: SearchResponse) => {
+        setResults(data.results);
+        setError(null);
+      })
+      .catch(error => {
+        console.error('Error searching:', error);
+        setError('Search failed. Please try again later.');
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [queryParam, typeParam]);
+
+  // The URL holds the search, so results can be linked to and go back works
+  const updateSearch = (q: string, type: TypeFilter) => {
+    const params = new URLSearchParams();
+    if (q.trim()) params.set('q', q.trim());
+    if (type) params.set('type', type);
+    router.push(`/search?${params}`);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSearch(input, typeParam);
+  };
+
+  return (
+    <div className="container">
+      <h1>SEARCH</h1>
+      <div className="brutalist-box">
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search thoughts and projects..."
+            className="flex-1 p-3 border-2 border-black font-mono focus:outline-none"
+            autoFocus
+          />
+          <button type="submit" className="tag">SEARCH</button>
+        </form>
+
+        <div className="mt-4">
+          {FILTERS.map(filter => (
+            <button
+              key={filter.value}
+              onClick={() => updateSearch(queryParam, filter.value)}
+              className={`tag ${typeParam === filter.value ? 'bg-blue-600 text-white' : ''}`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        <p className="mt-4 text-sm text-gray-500">
+          Use &quot;quotes&quot; for phrases, -word to exclude a word and OR between alternatives.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="brutalist-box">
+          <p>Searching...</p>
+        </div>
+      ) : error ? (
+        <div className="brutalist-box">
+          <p className="text-red-600">{error}</p>
+        </div>
+      ) : queryParam.trim().length < 2 ? null : results.length > 0 ? (
+        <div>
+          <p className="mb-4 text-sm text-gray-500">
+            {results.length} result{results.length === 1 ? '' : 's'} for &ldquo;{queryParam}&rdquo;
+          </p>
+          {results.map(result => (
+            <Link href={result.url} key={result.url}>
+              <div className="project">
+                <span className="tag">{result.type === 'thought' ? 'THOUGHT' : 'PROJECT'}</span>
+                <h3>
+                  <HighlightedText parts={result.title} />
+                </h3>
+                <p>
+                  <HighlightedText parts={result.snippet} />
+                </p>
+                <div className="mt-3 text-sm text-gray-500">
+                  {new Date(result.createdAt).toLocaleDateString('en-US', {
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric'
+                  })}
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      ) : (
+        <div className="brutalist-box">
+          <p>No results for &ldquo;{queryParam}&rdquo;. Try fewer or different words.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The main exported component with Suspense boundary
+export default function SearchPage() {
+  return (
+    <Suspense fallback={<div className="container"><h1>SEARCH</h1></div>}>
+      <SearchContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,24 @@
+import type { MetadataRoute } from 'next'
+import { listLiveProjects, listLiveThoughts } from '@/lib/content'
+import { absoluteUrl } from '@/lib/site'
+
+// Scheduled items appear and disappear on their own, so build it per request
+export const dynamic = 'force-dynamic'
+
+const STATIC_PAGES = ['/', '/thoughts', '/projects', '/graph', '/about', '/contact']
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const [thoughts, projects] = await Promise.all([listLiveThoughts(), listLiveProjects()])
+
+  return [
+    ...STATIC_PAGES.map(path => ({ url: absoluteUrl(path) })),
+    ...thoughts.map(post => ({
+      url: absoluteUrl(`/thoughts/${post.slug}`),
+      lastModified: post.updatedAt,
+    })),
+    ...projects.map(project => ({
+      url: absoluteUrl(`/projects/${project.slug}`),
+      lastModified: project.updatedAt,
+    })),
+  ]
+}
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next';
+import React from 'react';
+import { getLiveThought } from '@/lib/content';
+import { publishedDate } from '@/lib/publishing';
+import { articleMetadata, summarize } from '@/lib/seo';
+
+interface ThoughtLayoutProps {
+  params: { slug: string };
+  children: React.ReactNode;
+}
+
+export async function generateMetadata({ params }: Pick<ThoughtLayoutProps, 'params'>): Promise<Metadata> {
+  const post = await getLiveThought(params.slug);
+
+  // The page renders a 404 for anything that isn't live
+  if (!post) {
+    return { robots: { index: false, follow: false } };
+  }
+
+  return articleMetadata({
+    title: post.title,
+    description: post.excerpt || summarize(post.content),
+    path: `/thoughts/${post.slug}`,
+    publishedTime: publishedDate(post),
+    modifiedTime: post.updatedAt,
+    tags: post.tags,
+    image: `/og/thoughts/${post.slug}`,
+  });
+}
+
+export default function ThoughtLayout({ children }: ThoughtLayoutProps) {
+  return children;
+}
@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import React from 'react';
+import { pageMetadata } from '@/lib/seo';
+
+export const metadata: Metadata = pageMetadata({
+  title: 'Thoughts',
+  description: 'A collection of ideas, insights, and explorations across technology, entrepreneurship, and research.',
+  path: '/thoughts',
+});
+
+export default function ThoughtsLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
@@ -4,6 +4,7 @@ import { useEffect, useState, Suspense } from 'react';
 import { BlogPost } from '@/types/blog';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
+import SubscribeForm from '@/components/ui/SubscribeForm';
 
 // The main component that uses useSearchParams
 function ThoughtsContent() {
@@ -95,6 +96,9 @@ function ThoughtsContent() {
       <h1>THOUGHTS</h1>
       <div className="brutalist-box">
         <p>A collection of ideas, insights, and explorations across technology, entrepreneurship, and research.</p>
+        <p className="mt-2">
+          <Link href="/graph" className="text-blue-600 hover:underline">See how they connect →</Link>
+        </p>
         
         {activeTag && (
           <div className="mt-4">
@@ -123,6 +127,12 @@ function ThoughtsContent() {
             >
               Clear filter
             </button>
+            <a
+              href={`/thoughts/tag/${encodeURIComponent(activeTag)}/feed.xml`}
+              className="ml-2 text-blue-600 hover:underline"
+            >
+              RSS for this tag
+            </a>
           </div>
         )}
       </div>
@@ -176,6 +186,8 @@ function ThoughtsContent() {
           <p>No thoughts found. {activeTag ? 'Try a different tag.' : 'Check back later!'}</p>
         </div>
       )}
+
+      <SubscribeForm />
     </div>
   );
 }
@@ -204,6 +216,9 @@ function ThoughtsLoading() {
       <h1>THOUGHTS</h1>
       <div className="brutalist-box">
         <p>A collection of ideas, insights, and explorations across technology, entrepreneurship, and research.</p>
+        <p className="mt-2">
+          <Link href="/graph" className="text-blue-600 hover:underline">See how they connect →</Link>
+        </p>
       </div>
       <div className="grid">
         {renderSkeletons(4)}
@@ -0,0 +1,11 @@
+import { feedResponse } from '@/lib/feeds'
+
+export const dynamic = 'force-dynamic'
+
+// Published thoughts with one tag
+export async function GET(
+  request: Request,
+  { params }: { params: { tag: string } }
+) {
+  return feedResponse('atom', params.tag)
+}
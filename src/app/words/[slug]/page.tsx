@@ -1,6 +1,12 @@
+import type { Metadata } from 'next';
 import Link from 'next/link';
-import { prisma } from '@/lib/db';
 import { notFound } from 'next/navigation';
+import { getLiveThought } from '@/lib/content';
+import { publishedDate } from '@/lib/publishing';
+import { articleMetadata, summarize } from '@/lib/seo';
+import Markdown from '@/components/content/Markdown';
+import { renderMarkdown } from '@/lib/markdown';
+import { liveWikiLinks } from '@/lib/wiki-links';
 
 interface BlogPostParams {
   params: {
@@ -9,11 +15,7 @@ interface BlogPostParams {
 }
 
 async function getBlogPost(slug: string) {
-  const post = await prisma.blogPost.findUnique({
-    where: {
-      slug: slug
-    }
-  });
+  const post = await getLiveThought(slug);
   
   if (!post) {
     notFound();
@@ -22,8 +24,24 @@ async function getBlogPost(slug: string) {
   return post;
 }
 
+// Same posts as /thoughts, which is the canonical address
+export async function generateMetadata({ params }: BlogPostParams): Promise<Metadata> {
+  const post = await getBlogPost(params.slug);
+
+  return articleMetadata({
+    title: post.title,
+    description: post.excerpt || summarize(post.content),
+    path: `/thoughts/${post.slug}`,
+    publishedTime: publishedDate(post),
+    modifiedTime: post.updatedAt,
+    tags: post.tags,
+    image: `/og/thoughts/${post.slug}`,
+  });
+}
+
 export default async function BlogPost({ params }: BlogPostParams) {
   const post = await getBlogPost(params.slug);
+  const resolveWikiLink = await liveWikiLinks();
   
   return (
     <article className="min-h-screen bg-zinc-900 px-4 py-24 md:px-8">
@@ -46,9 +64,7 @@ export default async function BlogPost({ params }: BlogPostParams) {
           })}
         </p>
         
-        <div className="prose prose-invert prose-lg max-w-none">
-          {post.content}
-        </div>
+        <Markdown html={renderMarkdown(post.content, { resolveWikiLink }).html} className="prose prose-invert prose-lg max-w-none markdown" />
       </div>
     </article>
   );
@@ -0,0 +1,67 @@
+'use client'
+
+import { Datepicker } from '../../../brutalist/interactive-components/Datepicker'
+import FieldError from '@/components/admin/FieldError'
+
+type DateTimeFieldProps = {
+  label: string
+  value: Date | null
+  onChange: (value: Date | null) => void
+  error?: string
+  hint?: string
+}
+
+const DEFAULT_HOURS = 9
+
+function pad(value: number) {
+  return value.toString().padStart(2, '0')
+}
+
+// The brutalist Datepicker only picks a day, so the time of day sits next to
+// it in a plain time input. Times are in the browser's timezone.
+export default function DateTimeField({ label, value, onChange, error, hint }: DateTimeFieldProps) {
+  const handleDateChange = (date: Date | null) => {
+    if (!date) {
+      onChange(null)
+      return
+    }
+
+    const next = new Date(date)
+    next.setHours(value ? value.getHours() : DEFAULT_HOURS, value ? value.getMinutes() : 0, 0, 0)
+    onChange(next)
+  }
+
+  const handleTimeChange = (time: string) => {
+    if (!value || !time) {
+      return
+    }
+
+    const [hours, minutes] = time.split(':').map(Number)
+    const next = new Date(value)
+    next.setHours(hours, minutes, 0, 0)
+    onChange(next)
+  }
+
+  return (
+    <div>
+      <label className="block mb-2">{label}</label>
+      <div className="flex gap-3">
+        <Datepicker
+          selectedDate={value ?? undefined}
+          onChange={handleDateChange}
+          placeholder="Not set"
+          className="flex-1"
+        />
+        <input
+          type="time"
+          value={value ? `${pad(value.getHours())}:${pad(value.getMinutes())}` : ''}
+          onChange={(e) => handleTimeChange(e.target.value)}
+          disabled={!value}
+          className="p-2 border-2 border-black font-mono disabled:opacity-50"
+        />
+      </div>
+      <FieldError message={error} />
+      {hint && <p className="text-gray-500 text-sm mt-1">{hint}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,8 @@
+// Inline message under a form input, fed from the fieldErrors of a 400 response
+export default function FieldError({ message }: { message?: string }) {
+  if (!message) {
+    return null
+  }
+
+  return <p className="text-red-600 text-sm mt-1">{message}</p>
+}
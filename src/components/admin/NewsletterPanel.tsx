@@ -0,0 +1,129 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { adminFetch } from '@/lib/admin-fetch'
+
+type Status = {
+  subscriberCount: number
+  issue: {
+    createdAt: string
+    completedAt: string | null
+    queuedBy: string | null
+    sent: number
+    failed: number
+    pending: number
+  } | null
+}
+
+// Emails a published thought to the confirmed subscribers. The server sends
+// one batch per request, so this keeps asking for the next batch until the
+// queue is empty; closing the page pauses the send and "Resume" continues it.
+export default function NewsletterPanel({ thoughtId }: { thoughtId: string }) {
+  const [status, setStatus] = useState<Status | null>(null)
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState('')
+
+  const apiUrl = `/api/admin/thoughts/${thoughtId}/newsletter`
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await adminFetch(apiUrl, {
+        credentials: 'include', // Include JWT cookie
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error: ${response.status}`)
+      }
+
+      setStatus(data)
+    } catch (err) {
+      console.error('Error fetching newsletter status:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load newsletter status')
+    }
+  }, [apiUrl])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  const handleSend = async () => {
+    if (!status?.issue && !confirm(`Email this thought to ${status?.subscriberCount ?? 0} subscribers? This can only be done once.`)) {
+      return
+    }
+
+    setSending(true)
+    setError('')
+
+    try {
+      let pending = true
+      while (pending) {
+        const response = await adminFetch(apiUrl, {
+          method: 'POST',
+          credentials: 'include', // Include JWT cookie
+        })
+
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || `Error: ${response.status}`)
+        }
+
+        setStatus(data)
+        pending = data.issue !== null && data.issue.pending > 0
+      }
+    } catch (err) {
+      console.error('Error sending newsletter:', err)
+      setError(err instanceof Error ? err.message : 'Failed to send the newsletter')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const issue = status?.issue
+
+  return (
+    <div className="max-w-4xl mt-12 border-t-2 border-black pt-6">
+      <h2 className="text-xl font-bold mb-2">Newsletter</h2>
+
+      {!status ? (
+        !error && <p className="text-gray-600 text-sm">Loading...</p>
+      ) : !issue ? (
+        <>
+          <p className="text-gray-600 text-sm mb-4">
+            Email a link to this thought to {status.subscriberCount} confirmed subscriber{status.subscriberCount === 1 ? '' : 's'}. Only published thoughts can be sent, and each thought only once.
+          </p>
+          <button
+            type="button"
+            onClick={handleSend}
+            disabled={sending || status.subscriberCount === 0}
+            className="tag disabled:opacity-50"
+          >
+            {sending ? 'Sending...' : 'Send to Subscribers'}
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="text-gray-600 text-sm mb-4">
+            Queued {new Date(issue.createdAt).toLocaleString()}
+            {issue.queuedBy && ` by ${issue.queuedBy}`}.{' '}
+            {issue.completedAt
+              ? `Finished ${new Date(issue.completedAt).toLocaleString()}.`
+              : sending
+                ? 'Sending...'
+                : 'Paused before every email went out.'}
+          </p>
+          <p className="font-mono text-sm mb-4">
+            {issue.sent} sent · {issue.failed} failed · {issue.pending} pending
+          </p>
+          {issue.pending > 0 && !sending && (
+            <button type="button" onClick={handleSend} className="tag">
+              Resume Sending
+            </button>
+          )}
+        </>
+      )}
+
+      {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+    </div>
+  )
+}
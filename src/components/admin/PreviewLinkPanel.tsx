@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import { adminFetch } from '@/lib/admin-fetch'
+import type { PreviewExpiry } from '@/lib/auth'
+
+// Type-only import: auth.ts holds the signing secret and stays server-side
+const EXPIRY_LABELS: Record<PreviewExpiry, string> = {
+  '1h': '1 hour',
+  '24h': '24 hours',
+  '7d': '7 days',
+}
+
+// Creates signed links that show the item to anyone, published or not. Used
+// on the thought and project edit pages.
+export default function PreviewLinkPanel({ apiBase }: { apiBase: string }) {
+  const [expiresIn, setExpiresIn] = useState<PreviewExpiry>('24h')
+  const [link, setLink] = useState<{ url: string; expiresAt: string } | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleCreate = async () => {
+    setCreating(true)
+    setCopied(false)
+    setError('')
+
+    try {
+      const response = await adminFetch(`${apiBase}/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // Include JWT cookie
+        body: JSON.stringify({ expiresIn }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `Error: ${response.status}`)
+      }
+
+      setLink({ url: `${window.location.origin}${data.url}`, expiresAt: data.expiresAt })
+    } catch (err) {
+      console.error('Error creating preview link:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create preview link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!link) return
+
+    try {
+      await navigator.clipboard.writeText(link.url)
+      setCopied(true)
+    } catch {
+      setError('Could not copy to the clipboard; select the link and copy it instead')
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mt-12 border-t-2 border-black pt-6">
+      <h2 className="text-xl font-bold mb-2">Preview Link</h2>
+      <p className="text-gray-600 text-sm mb-4">
+        Anyone with the link can read the current saved version, even while it is a draft. Save your changes first.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          value={expiresIn}
+          onChange={(e) => setExpiresIn(e.target.value as PreviewExpiry)}
+          className="p-3 rounded border border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {Object.entries(EXPIRY_LABELS).map(([option, label]) => (
+            <option key={option} value={option}>Expires in {label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={creating}
+          className="tag disabled:opacity-50"
+        >
+          {creating ? 'Creating...' : 'Create Preview Link'}
+        </button>
+      </div>
+
+      {link && (
+        <div className="mt-4">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={link.url}
+              onFocus={(e) => e.target.select()}
+              className="w-full p-3 rounded border border-gray-400 font-mono text-sm"
+            />
+            <button type="button" onClick={handleCopy} className="tag">
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <p className="text-gray-500 text-sm mt-1">
+            Expires {new Date(link.expiresAt).toLocaleString()}
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { adminFetch } from '@/lib/admin-fetch'
+import { DiffRow, sideBySideDiff } from '@/lib/diff'
+
+type RevisionSummary = {
+  id: string
+  number: number
+  authorUsername: string | null
+  restoredFrom: number | null
+  createdAt: string
+}
+
+type Revision = RevisionSummary & {
+  snapshot: Record<string, unknown>
+}
+
+type RevisionHistoryProps = {
+  // e.g. /api/admin/thoughts/abc123
+  apiBase: string
+  backHref: string
+  title: string
+  // Snapshot field -> label, in display order
+  fields: Record<string, string>
+  // Fields compared line by line; the rest are shown as before/after values
+  markdownFields: string[]
+}
+
+function formatValue(value: unknown) {
+  if (Array.isArray(value)) {
+    return value.join(', ')
+  }
+  return value === null || value === undefined ? '' : String(value)
+}
+
+function DiffTable({ rows }: { rows: DiffRow[] }) {
+  return (
+    <div className="overflow-x-auto border-2 border-black">
+      <table className="min-w-full font-mono text-xs">
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={i} className="align-top">
+              <td className="w-10 px-2 text-right text-gray-400 select-none">{row.leftNumber}</td>
+              <td
+                className={`w-1/2 px-2 whitespace-pre-wrap break-words ${
+                  row.type === 'changed' && row.left !== null ? 'bg-red-100' : ''
+                }`}
+              >
+                {row.left}
+              </td>
+              <td className="w-10 px-2 text-right text-gray-400 select-none border-l-2 border-black">{row.rightNumber}</td>
+              <td
+                className={`w-1/2 px-2 whitespace-pre-wrap break-words ${
+                  row.type === 'changed' && row.right !== null ? 'bg-green-100' : ''
+                }`}
+              >
+                {row.right}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+// Revision list, side-by-side diff between any two revisions and restore.
+// Shared by the thought and project history pages.
+export default function RevisionHistory({ apiBase, backHref, title, fields, markdownFields }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([])
+  const [snapshots, setSnapshots] = useState<Record<string, Revision>>({})
+  const [leftId, setLeftId] = useState<string | null>(null)
+  const [rightId, setRightId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [restoring, setRestoring] = useState(false)
+  const [status, setStatus] = useState({ message: '', type: '' })
+  const router = useRouter()
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const response = await adminFetch(`${apiBase}/revisions`, {
+        credentials: 'include', // Include JWT cookie
+      })
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          // Redirect to login if unauthorized
+          router.push('/admin/login')
+          return
+        }
+        throw new Error(`Error: ${response.status}`)
+      }
+
+      const data: RevisionSummary[] = await response.json()
+      setRevisions(data)
+
+      // Compare the latest revision with the one before it by default
+      setRightId(data[0]?.id ?? null)
+      setLeftId(data[1]?.id ?? data[0]?.id ?? null)
+    } catch (err) {
+      console.error('Error fetching revisions:', err)
+      setStatus({ message: 'Failed to load revisions', type: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }, [apiBase, router])
+
+  useEffect(() => {
+    fetchRevisions()
+  }, [fetchRevisions])
+
+  // Snapshots are loaded on demand as revisions are picked for comparison
+  useEffect(() => {
+    const missing = [leftId, rightId].filter(
+      (id): id is string => !!id && !snapshots[id]
+    )
+
+    missing.forEach(async (id) => {
+      try {
+        const response = await adminFetch(`${apiBase}/revisions/${id}`)
+        if (!response.ok) {
+          throw new Error(`Error: ${response.status}`)
+        }
+
+        const revision: Revision = await response.json()
+        setSnapshots(current => ({ ...current, [id]: revision }))
+      } catch (err) {
+        console.error('Error fetching revision:', err)
+      }
+    })
+  }, [apiBase, leftId, rightId, snapshots])
+
+  const handleRestore = async (revision: RevisionSummary) => {
+    if (!window.confirm(`Restore revision #${revision.number}? The current version stays in the history.`)) {
+      return
+    }
+
+    setRestoring(true)
+    setStatus({ message: '', type: '' })
+
+    try {
+      const response = await adminFetch(`${apiBase}/revisions/${revision.id}/restore`, {
+        method: 'POST',
+        credentials: 'include', // Include JWT cookie
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || `Error: ${response.status}`)
+      }
+
+      setStatus({ message: `Restored revision #${revision.number}`, type: 'success' })
+      await fetchRevisions()
+    } catch (err) {
+      console.error('Error restoring revision:', err)
+      setStatus({ message: err instanceof Error ? err.message : 'Failed to restore revision', type: 'error' })
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const left = leftId ? snapshots[leftId] : undefined
+  const right = rightId ? snapshots[rightId] : undefined
+
+  return (
+    <div className="container">
+      <header className="flex justify-between items-center mb-8">
+        <h1>{title}</h1>
+        <Link href={backHref} className="tag">
+          Back to Editor
+        </Link>
+      </header>
+
+      {status.message && (
+        <div className={`brutalist-box p-3 mb-8 ${status.type === 'error' ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>
+          {status.message}
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading revisions...</p>
+      ) : revisions.length === 0 ? (
+        <p>No revisions yet. One is stored every time this item is saved.</p>
+      ) : (
+        <>
+          <div className="brutalist-box mb-8 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-black text-left">
+                  <th className="py-2 pr-4">Old</th>
+                  <th className="py-2 pr-4">New</th>
+                  <th className="py-2 pr-4">Revision</th>
+                  <th className="py-2 pr-4">Saved By</th>
+                  <th className="py-2 pr-4">Saved At</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {revisions.map((revision, index) => (
+                  <tr key={revision.id} className="border-b border-gray-200">
+                    <td className="py-2 pr-4">
+                      <input
+                        type="radio"
+                        name="left"
+                        checked={leftId === revision.id}
+                        onChange={() => setLeftId(revision.id)}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <input
+                        type="radio"
+                        name="right"
+                        checked={rightId === revision.id}
+                        onChange={() => setRightId(revision.id)}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      #{revision.number}
+                      {index === 0 && <span className="ml-2 tag">current</span>}
+                      {revision.restoredFrom !== null && (
+                        <span className="ml-2 text-gray-500">restored from #{revision.restoredFrom}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{revision.authorUsername ?? '—'}</td>
+                    <td className="py-2 pr-4">{new Date(revision.createdAt).toLocaleString()}</td>
+                    <td className="py-2 text-right">
+                      {index > 0 && (
+                        <button
+                          onClick={() => handleRestore(revision)}
+                          disabled={restoring}
+                          className="text-blue-600 hover:underline disabled:opacity-50"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {left && right ? (
+            <div className="space-y-8">
+              {Object.entries(fields).map(([field, label]) => {
+                const before = formatValue(left.snapshot[field])
+                const after = formatValue(right.snapshot[field])
+
+                return (
+                  <div key={field}>
+                    <h3 className="mb-2">
+                      {label}
+                      {before === after && <span className="ml-2 text-sm text-gray-500">unchanged</span>}
+                    </h3>
+                    {markdownFields.includes(field) ? (
+                      <DiffTable rows={sideBySideDiff(before, after)} />
+                    ) : (
+                      <div className="grid grid-cols-2 border-2 border-black font-mono text-sm">
+                        <div className={`p-2 ${before !== after ? 'bg-red-100' : ''}`}>{before || '—'}</div>
+                        <div className={`p-2 border-l-2 border-black ${before !== after ? 'bg-green-100' : ''}`}>{after || '—'}</div>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          ) : (
+            <p>Loading comparison...</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
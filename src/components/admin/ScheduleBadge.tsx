@@ -0,0 +1,44 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Schedulable, formatCountdown, publishState } from '@/lib/publishing'
+
+// Publish state for the admin lists, with a countdown for scheduled items
+// and for live items that have an unpublish date
+export default function ScheduleBadge({ item }: { item: Schedulable }) {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const state = publishState(item, now)
+
+  switch (state) {
+    case 'draft':
+      return <span className="px-3 py-1 rounded-full text-xs bg-gray-200 text-gray-800">Draft</span>
+    case 'expired':
+      return <span className="px-3 py-1 rounded-full text-xs bg-red-200 text-red-800">Expired</span>
+    case 'scheduled':
+      return (
+        <span
+          className="px-3 py-1 rounded-full text-xs bg-yellow-200 text-yellow-800"
+          title={new Date(item.publishAt!).toLocaleString()}
+        >
+          Live in {formatCountdown(item.publishAt!, now)}
+        </span>
+      )
+    case 'live':
+      return item.unpublishAt ? (
+        <span
+          className="px-3 py-1 rounded-full text-xs bg-green-200 text-green-800"
+          title={`Unpublishes ${new Date(item.unpublishAt).toLocaleString()}`}
+        >
+          Live, ends in {formatCountdown(item.unpublishAt, now)}
+        </span>
+      ) : (
+        <span className="px-3 py-1 rounded-full text-xs bg-green-200 text-green-800">Published</span>
+      )
+  }
+}
@@ -0,0 +1,35 @@
+import { RenderedMarkdown, tableOfContents } from '@/lib/markdown';
+import Markdown from '@/components/content/Markdown';
+import ReadingProgress from '@/components/ui/ReadingProgress';
+import TableOfContents from '@/components/ui/TableOfContents';
+
+interface ArticleBodyProps {
+  rendered: RenderedMarkdown;
+  // Classes for the box around the content
+  className?: string;
+}
+
+// The content of a thought or project with a reading progress bar. Documents
+// with a few sections also get a table of contents: beside the text on wide
+// screens, where it stays in view, and above it on narrow ones.
+export default function ArticleBody({ rendered, className }: ArticleBodyProps) {
+  const toc = tableOfContents(rendered.headings);
+
+  return (
+    <>
+      <ReadingProgress targetId="article-body" />
+
+      <div className={toc.length > 0 ? 'lg:grid lg:grid-cols-[minmax(0,1fr)_16rem] lg:gap-8' : undefined}>
+        {toc.length > 0 && (
+          <aside className="lg:order-last">
+            <TableOfContents headings={toc} />
+          </aside>
+        )}
+
+        <div id="article-body" className={className}>
+          <Markdown html={rendered.html} className="markdown" />
+        </div>
+      </div>
+    </>
+  );
+}
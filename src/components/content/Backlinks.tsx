@@ -0,0 +1,25 @@
+import Link from 'next/link';
+import type { ThoughtBacklink } from '@/types/blog';
+
+// "Linked from": the live thoughts that [[link]] to this one
+export default function Backlinks({ backlinks }: { backlinks: ThoughtBacklink[] }) {
+  if (backlinks.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="brutalist-box">
+      <h2>LINKED FROM</h2>
+      <ul>
+        {backlinks.map(backlink => (
+          <li key={backlink.slug} className="mt-4">
+            <Link href={`/thoughts/${backlink.slug}`} className="font-bold hover:underline">
+              {backlink.title}
+            </Link>
+            {backlink.excerpt && <p className="text-sm text-gray-600 mt-1">{backlink.excerpt}</p>}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,14 @@
+import 'katex/dist/katex.min.css';
+
+interface MarkdownProps {
+  // The html of renderMarkdown's result
+  html: string;
+  className?: string;
+}
+
+// Stored markdown rendered on the server. renderMarkdown sanitizes the HTML,
+// which is what makes dangerouslySetInnerHTML safe here; never pass anything
+// else.
+export default function Markdown({ html, className }: MarkdownProps) {
+  return <div className={className} dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -0,0 +1,80 @@
+import Link from 'next/link';
+import type { Project } from '@prisma/client';
+import DraftPreviewBanner from '@/components/ui/DraftPreviewBanner';
+import ArticleBody from '@/components/content/ArticleBody';
+import { formatReadingTime, renderMarkdown } from '@/lib/markdown';
+import { publishedDate } from '@/lib/publishing';
+
+interface ProjectArticleProps {
+  project: Project;
+  // Set when the project is shown through a draft preview link
+  previewExpiresAt?: Date;
+}
+
+export default function ProjectArticle({ project, previewExpiresAt }: ProjectArticleProps) {
+  const rendered = renderMarkdown(project.content);
+
+  return (
+    <div className="container">
+      {previewExpiresAt && <DraftPreviewBanner expiresAt={previewExpiresAt.toISOString()} />}
+
+      <header className="border-b-2 border-black pb-4 mb-8">
+        <h1>{project.title.toUpperCase()}</h1>
+        <div className="mt-4">
+          {project.technologies.map((tag) => (
+            <span key={tag} className="tag mr-2">{tag}</span>
+          ))}
+        </div>
+        <p className="mt-4 text-gray-500">
+          {publishedDate(project).toLocaleDateString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+          })}
+          {' · '}
+          {formatReadingTime(rendered.readingTime)}
+        </p>
+      </header>
+
+      <div className="brutalist-box mb-8">
+        <p>{project.description}</p>
+      </div>
+
+      <ArticleBody rendered={rendered} className="content-box" />
+
+      {(project.repoUrl || project.demoUrl) && (
+        <div className="mt-8">
+          <h3 className="text-xl font-bold mb-2">Project Links</h3>
+          <div className="flex flex-wrap gap-4">
+            {project.repoUrl && (
+              <a 
+                href={project.repoUrl} 
+                target="_blank" 
+                rel="noopener noreferrer" 
+                className="inline-block border-b border-black hover:bg-red-500 hover:text-white hover:border-red-500 px-1"
+              >
+                View Repository →
+              </a>
+            )}
+            {project.demoUrl && (
+              <a 
+                href={project.demoUrl} 
+                target="_blank" 
+                rel="noopener noreferrer" 
+                className="inline-block border-b border-black hover:bg-red-500 hover:text-white hover:border-red-500 px-1"
+              >
+                Live Demo →
+              </a>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-12">
+        <Link href="/projects" className="tag">
+          ← Back to Projects
+        </Link>
+      </div>
+    </div>
+  );
+}
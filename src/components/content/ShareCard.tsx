@@ -0,0 +1,121 @@
+import { colors } from '@/styles/theme';
+
+interface ShareCardProps {
+  kind: 'THOUGHT' | 'PROJECT';
+  title: string;
+  tags: string[];
+  date: Date;
+  site: string;
+}
+
+// Drawn by next/og, which only understands inline styles and flexbox: every
+// element with more than one child needs display: flex
+const BORDER = '8px solid #000';
+
+// Long titles shrink instead of running off the card
+function titleSize(title: string) {
+  if (title.length > 70) return 44;
+  if (title.length > 40) return 56;
+  return 72;
+}
+
+export default function ShareCard({ kind, title, tags, date, site }: ShareCardProps) {
+  const accent = kind === 'THOUGHT' ? colors.mindaro.DEFAULT : colors.arylideYellow.DEFAULT;
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        // Extra room on the right and bottom for the shadow
+        padding: '32px 48px 48px 32px',
+        backgroundColor: colors.mindaro[900],
+        fontFamily: 'sans-serif',
+      }}
+    >
+      <div
+        style={{
+          flex: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 40,
+          backgroundColor: '#fff',
+          border: BORDER,
+          // Hard shadow from the design system's effects
+          boxShadow: '16px 16px 0 0 #000',
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ display: 'flex' }}>
+            <div
+              style={{
+                padding: '8px 20px',
+                backgroundColor: accent,
+                border: '4px solid #000',
+                fontSize: 24,
+                fontWeight: 700,
+                letterSpacing: '0.1em',
+              }}
+            >
+              {kind}
+            </div>
+          </div>
+          <div
+            style={{
+              marginTop: 24,
+              maxHeight: 200,
+              overflow: 'hidden',
+              fontSize: titleSize(title),
+              fontWeight: 700,
+              lineHeight: 1.1,
+              color: '#000',
+            }}
+          >
+            {title.toUpperCase()}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          {tags.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', marginBottom: 16 }}>
+              {tags.slice(0, 5).map(tag => (
+                <div
+                  key={tag}
+                  style={{
+                    marginRight: 12,
+                    padding: '4px 14px',
+                    border: '3px solid #000',
+                    fontSize: 20,
+                  }}
+                >
+                  {tag}
+                </div>
+              ))}
+            </div>
+          )}
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              paddingTop: 16,
+              borderTop: '4px solid #000',
+              fontSize: 24,
+              color: colors.vanDyke.DEFAULT,
+            }}
+          >
+            <div>
+              {date.toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+              })}
+            </div>
+            <div style={{ fontWeight: 700, color: '#000' }}>{site}</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import Link from 'next/link';
+import type { BlogPost } from '@prisma/client';
+import type { PublicComment } from '@/types/comment';
+import type { ThoughtBacklink } from '@/types/blog';
+import DraftPreviewBanner from '@/components/ui/DraftPreviewBanner';
+import ArticleBody from '@/components/content/ArticleBody';
+import { formatReadingTime, renderMarkdown, WikiLinkResolver } from '@/lib/markdown';
+import { publishedDate } from '@/lib/publishing';
+import Backlinks from '@/components/content/Backlinks';
+import SubscribeForm from '@/components/ui/SubscribeForm';
+import CommentSection from '@/components/ui/CommentSection';
+
+interface ThoughtArticleProps {
+  post: BlogPost;
+  // Set when the post is shown through a draft preview link
+  previewExpiresAt?: Date;
+  // Approved comments; left out on previews, where there is nothing to discuss yet
+  comments?: PublicComment[];
+  // Thoughts linking here; also left out on previews
+  backlinks?: ThoughtBacklink[];
+  resolveWikiLink: WikiLinkResolver;
+}
+
+export default function ThoughtArticle({ post, previewExpiresAt, comments, backlinks, resolveWikiLink }: ThoughtArticleProps) {
+  const rendered = renderMarkdown(post.content, { resolveWikiLink });
+
+  return (
+    <div className="container">
+      {previewExpiresAt && <DraftPreviewBanner expiresAt={previewExpiresAt.toISOString()} />}
+
+      <div className="brutalist-box">
+        <Link href="/thoughts" className="tag">← BACK TO THOUGHTS</Link>
+      </div>
+
+      <article>
+        <h1>{post.title}</h1>
+
+        <div className="brutalist-box">
+          {post.tags.length > 0 && (
+            <div className="tags">
+              {post.tags.map(tag => (
+                <Link
+                  key={tag}
+                  href={`/thoughts?tag=${encodeURIComponent(tag)}`}
+                  className="tag"
+                >
+                  {tag}
+                </Link>
+              ))}
+            </div>
+          )}
+
+          <div className="mb-8 text-gray-500">
+            {publishedDate(post).toLocaleDateString('en-US', {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric'
+            })}
+            {' · '}
+            {formatReadingTime(rendered.readingTime)}
+          </div>
+        </div>
+
+        <ArticleBody rendered={rendered} className="brutalist-box" />
+      </article>
+
+      {backlinks && <Backlinks backlinks={backlinks} />}
+
+      {comments && <CommentSection slug={post.slug} comments={comments} />}
+
+      {!previewExpiresAt && <SubscribeForm />}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import SearchBox from './SearchBox';
 
 export default function Navbar() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -66,18 +67,22 @@ export default function Navbar() {
           </ul>
         </nav>
 
-        {/* Mobile Menu Button */}
-        <button 
-          className="block md:hidden"
-          onClick={toggleMobileMenu}
-          aria-label="Toggle mobile menu"
-        >
-          <div className="flex flex-col justify-center w-4 h-4 space-y-1">
-            <span className={`w-4 h-0.5 bg-black block transition-transform ${isMobileMenuOpen ? 'rotate-45 translate-y-1' : ''}`} />
-            <span className={`w-4 h-0.5 bg-black block transition-opacity ${isMobileMenuOpen ? 'opacity-0' : ''}`} />
-            <span className={`w-4 h-0.5 bg-black block transition-transform ${isMobileMenuOpen ? '-rotate-45 -translate-y-1' : ''}`} />
-          </div>
-        </button>
+        <div className="flex items-center h-full">
+          <SearchBox />
+
+          {/* Mobile Menu Button */}
+          <button 
+            className="block md:hidden ml-3"
+            onClick={toggleMobileMenu}
+            aria-label="Toggle mobile menu"
+          >
+            <div className="flex flex-col justify-center w-4 h-4 space-y-1">
+              <span className={`w-4 h-0.5 bg-black block transition-transform ${isMobileMenuOpen ? 'rotate-45 translate-y-1' : ''}`} />
+              <span className={`w-4 h-0.5 bg-black block transition-opacity ${isMobileMenuOpen ? 'opacity-0' : ''}`} />
+              <span className={`w-4 h-0.5 bg-black block transition-transform ${isMobileMenuOpen ? '-rotate-45 -translate-y-1' : ''}`} />
+            </div>
+          </button>
+        </div>
       </div>
 
       {/* Mobile Menu */}
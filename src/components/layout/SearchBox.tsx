@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import HighlightedText from '@/components/ui/HighlightedText';
+import { SearchResponse, SearchResult } from '@/types/search';
+
+const MIN_QUERY_LENGTH = 2;
+const RESULT_LIMIT = 8;
+const DEBOUNCE_MS = 200;
+
+// Elements where "/" should be typed rather than open the search box
+function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
+// Search overlay opened from the navbar, with Ctrl/⌘+K or with "/"
+export default function SearchBox() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const router = useRouter();
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setQuery('');
+    setResults([]);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.key === 'k' && (e.metaKey || e.ctrlKey)) || (e.key === '/' && !isTypingTarget(e.target))) {
+        e.preventDefault();
+        setIsOpen(true);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  // Debounced search; a newer query aborts the request for the previous one
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    const timer = setTimeout(() => {
+      fetch(`/api/search?q=${encodeURIComponent(trimmed)}&limit=${RESULT_LIMIT}`, { signal: controller.signal })
+        .then(res => {
+          if (!res.ok) {
+            throw new Error('Search failed');
+          }
+          return res.json();
+        })
+        .then((data: SearchResponse) => {
+          setResults(data.results);
+          setActiveIndex(0);
+          setLoading(false);
+        })
+        .catch(error => {
+          if (error.name !== 'AbortError') {
+            console.error('Error searching:', error);
+            setResults([]);
+            setLoading(false);
+          }
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const navigate = (url: string) => {
+    close();
+    router.push(url);
+  };
+
+  const showAllResults = () => navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) {
+        navigate(results[activeIndex].url);
+      } else if (query.trim().length >= MIN_QUERY_LENGTH) {
+        showAllResults();
+      }
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="h-full px-3 text-xs border-l border-black hover:bg-red-500 hover:text-white"
+        aria-label="Search"
+      >
+        SEARCH <span className="hidden md:inline text-gray-500">[/]</span>
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-50 bg-black/40 flex items-start justify-center pt-24 px-4"
+          onMouseDown={close}
+        >
+          <div
+            className="w-full max-w-2xl bg-white border-2 border-black shadow-[6px_6px_0px_0px_rgba(0,0,0,1)]"
+            onMouseDown={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-label="Search thoughts and projects"
+          >
+            <input
+              ref={inputRef}
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleInputKeyDown}
+              placeholder="Search thoughts and projects..."
+              className="w-full p-4 font-mono text-lg border-b-2 border-black focus:outline-none"
+            />
+
+            <div className="max-h-[60vh] overflow-y-auto">
+              {query.trim().length < MIN_QUERY_LENGTH ? (
+                <p className="p-4 text-sm text-gray-500 font-mono">
+                  Type to search. ↑↓ to move, Enter to open, Esc to close.
+                </p>
+              ) : loading && results.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500 font-mono">Searching...</p>
+              ) : results.length === 0 ? (
+                <p className="p-4 text-sm font-mono">No results for &ldquo;{query.trim()}&rdquo;</p>
+              ) : (
+                <ul>
+                  {results.map((result, index) => (
+                    <li key={result.url}>
+                      <button
+                        onClick={() => navigate(result.url)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={`block w-full text-left p-4 border-b border-black ${
+                          index === activeIndex ? 'bg-gray-100' : ''
+                        }`}
+                      >
+                        <span className="tag mr-2">{result.type === 'thought' ? 'THOUGHT' : 'PROJECT'}</span>
+                        <strong>
+                          <HighlightedText parts={result.title} />
+                        </strong>
+                        <p className="mt-1 text-sm text-gray-700">
+                          <HighlightedText parts={result.snippet} />
+                        </p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {query.trim().length >= MIN_QUERY_LENGTH && (
+              <button
+                onClick={showAllResults}
+                className="block w-full p-3 text-left text-sm font-mono hover:bg-red-500 hover:text-white"
+              >
+                See all results →
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -6,6 +6,8 @@ import AnimatedHeading from '@/components/ui/AnimatedHeading';
 import Button from '@/components/ui/Button';
 import Section from '@/components/layout/Section';
 
+const SUBMIT_ERROR = 'There was an error submitting your message. Please try again.';
+
 interface ContactSectionProps {
   updateCursorVariant: (variant: string) => void;
 }
@@ -15,6 +17,8 @@ export default function ContactSection({ updateCursorVariant }: ContactSectionPr
     name: '',
     email: '',
     message: '',
+    // Honeypot, see /api/contact
+    website: '',
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
@@ -31,12 +35,25 @@ export default function ContactSection({ updateCursorVariant }: ContactSectionPr
     setSubmitError('');
 
     try {
-      // This would be an actual API call in production
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        const fieldErrors: Record<string, string> = data.fieldErrors || {};
+        // Say which field to fix, or why the message was refused
+        setSubmitError(Object.values(fieldErrors)[0] || data.error || SUBMIT_ERROR);
+        return;
+      }
+
       setSubmitSuccess(true);
-      setFormData({ name: '', email: '', message: '' });
+      setFormData({ name: '', email: '', message: '', website: '' });
     } catch (error) {
-      setSubmitError('There was an error submitting your message. Please try again.');
+      console.error('Error sending message:', error);
+      setSubmitError(SUBMIT_ERROR);
     } finally {
       setIsSubmitting(false);
     }
@@ -272,6 +289,20 @@ export default function ContactSection({ updateCursorVariant }: ContactSectionPr
                 </div>
               </div>
 
+              {/* Hidden from people; bots that fill in every field give themselves away */}
+              <div className="absolute -left-[9999px]" aria-hidden="true">
+                <label htmlFor="website">Website</label>
+                <input
+                  type="text"
+                  id="website"
+                  name="website"
+                  value={formData.website}
+                  onChange={handleChange}
+                  tabIndex={-1}
+                  autoComplete="off"
+                />
+              </div>
+
               {submitError && <div className="text-red-500 text-sm">{submitError}</div>}
 
               <Button
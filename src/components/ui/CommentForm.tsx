@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState } from 'react';
+
+const EMPTY_FORM = { name: '', email: '', body: '', website: '' };
+
+const INPUT_CLASS = 'w-full p-3 border-2 border-black focus:outline-none focus:border-blue-600';
+
+interface CommentFormProps {
+  slug: string;
+  // Set when answering a comment
+  parentId?: string;
+  onCancel?: () => void;
+}
+
+// Posts to /api/posts/<slug>/comments. Nothing appears right away: every
+// comment waits for approval.
+export default function CommentForm({ slug, parentId, onCancel }: CommentFormProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const idPrefix = `comment-${parentId ?? 'new'}`;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError('');
+    setFieldErrors({});
+
+    try {
+      const response = await fetch(`/api/posts/${encodeURIComponent(slug)}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, parentId }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setFieldErrors(data.fieldErrors || {});
+        setError(data.fieldErrors?.parentId || data.error || 'Failed to post your comment. Please try again.');
+        return;
+      }
+
+      setSent(true);
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      console.error('Error posting comment:', err);
+      setError('Failed to post your comment. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="border-4 border-black p-4 my-4">
+        <p className="font-bold">THANKS!</p>
+        <p>Your comment will appear once it has been approved.</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 my-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-name`} className="block mb-1 font-bold">NAME</label>
+          <input id={`${idPrefix}-name`} name="name" type="text" value={form.name} onChange={handleChange} className={INPUT_CLASS} maxLength={100} required />
+          {fieldErrors.name && <p className="text-red-600 text-sm mt-1">{fieldErrors.name}</p>}
+        </div>
+
+        <div>
+          <label htmlFor={`${idPrefix}-email`} className="block mb-1 font-bold">EMAIL <span className="font-normal text-gray-500">(not published)</span></label>
+          <input id={`${idPrefix}-email`} name="email" type="email" value={form.email} onChange={handleChange} className={INPUT_CLASS} required />
+          {fieldErrors.email && <p className="text-red-600 text-sm mt-1">{fieldErrors.email}</p>}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor={`${idPrefix}-body`} className="block mb-1 font-bold">{parentId ? 'REPLY' : 'COMMENT'}</label>
+        <textarea id={`${idPrefix}-body`} name="body" value={form.body} onChange={handleChange} rows={parentId ? 4 : 6} className={INPUT_CLASS} maxLength={5000} required />
+        {fieldErrors.body && <p className="text-red-600 text-sm mt-1">{fieldErrors.body}</p>}
+      </div>
+
+      {/* Hidden from people; bots that fill in every field give themselves away */}
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <label htmlFor={`${idPrefix}-website`}>Website</label>
+        <input id={`${idPrefix}-website`} name="website" type="text" value={form.website} onChange={handleChange} tabIndex={-1} autoComplete="off" />
+      </div>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={sending}
+          className="border-2 border-black bg-black text-white px-6 py-3 font-bold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {sending ? 'POSTING...' : parentId ? 'POST REPLY' : 'POST COMMENT'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="border-2 border-black px-6 py-3 font-bold hover:bg-gray-100">
+            CANCEL
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import type { PublicComment } from '@/types/comment';
+import CommentForm from '@/components/ui/CommentForm';
+
+// Replies deeper than this are shown at this depth so threads stay readable
+// on narrow screens
+const MAX_INDENT = 4;
+
+function countComments(comments: PublicComment[]): number {
+  return comments.reduce((total, comment) => total + 1 + countComments(comment.replies), 0);
+}
+
+interface CommentListProps {
+  slug: string;
+  comments: PublicComment[];
+  depth: number;
+  replyingTo: string | null;
+  onReply: (id: string | null) => void;
+}
+
+function CommentList({ slug, comments, depth, replyingTo, onReply }: CommentListProps) {
+  return (
+    <ul className={depth > 0 && depth <= MAX_INDENT ? 'ml-4 md:ml-8 border-l-4 border-black pl-4' : ''}>
+      {comments.map(comment => (
+        <li key={comment.id} className="mt-6">
+          <div className="flex flex-wrap items-baseline gap-x-3">
+            <span className="font-bold">{comment.authorName}</span>
+            <span className="text-sm text-gray-500">
+              {new Date(comment.createdAt).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric'
+              })}
+            </span>
+          </div>
+          <p className="whitespace-pre-wrap break-words mt-1">{comment.body}</p>
+
+          {replyingTo === comment.id ? (
+            <CommentForm slug={slug} parentId={comment.id} onCancel={() => onReply(null)} />
+          ) : (
+            <button onClick={() => onReply(comment.id)} className="text-sm text-blue-600 hover:underline mt-1">
+              Reply
+            </button>
+          )}
+
+          {comment.replies.length > 0 && (
+            <CommentList
+              slug={slug}
+              comments={comment.replies}
+              depth={depth + 1}
+              replyingTo={replyingTo}
+              onReply={onReply}
+            />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Approved comments on a thought, threaded, with forms for new comments and
+// replies
+export default function CommentSection({ slug, comments }: { slug: string; comments: PublicComment[] }) {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const count = countComments(comments);
+
+  return (
+    <section className="brutalist-box">
+      <h2>COMMENTS{count > 0 && ` (${count})`}</h2>
+
+      {comments.length === 0 ? (
+        <p>No comments yet. Start the conversation.</p>
+      ) : (
+        <CommentList
+          slug={slug}
+          comments={comments}
+          depth={0}
+          replyingTo={replyingTo}
+          onReply={setReplyingTo}
+        />
+      )}
+
+      <h3 className="mt-8">LEAVE A COMMENT</h3>
+      <p className="text-sm text-gray-500">Comments are moderated and appear once approved.</p>
+      <CommentForm slug={slug} />
+    </section>
+  );
+}
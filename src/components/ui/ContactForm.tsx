@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useState } from 'react';
+
+const EMPTY_FORM = { name: '', email: '', message: '', website: '' };
+
+const INPUT_CLASS = 'w-full p-3 bg-zinc-800 text-white border-2 border-white focus:outline-none focus:border-yellow-300';
+
+// Posts to /api/contact, which stores the message in the admin inbox
+export default function ContactForm() {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError('');
+    setFieldErrors({});
+
+    try {
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setFieldErrors(data.fieldErrors || {});
+        setError(data.error || 'Failed to send your message. Please try again.');
+        return;
+      }
+
+      setSent(true);
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      console.error('Error sending message:', err);
+      setError('Failed to send your message. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="border-4 border-white p-6 text-white max-w-2xl">
+        <h2 className="text-2xl font-bold mb-2">MESSAGE SENT</h2>
+        <p className="mb-6">Thanks for reaching out. I&apos;ll get back to you soon.</p>
+        <button onClick={() => setSent(false)} className="border-2 border-white px-4 py-2 font-bold hover:bg-white hover:text-black">
+          SEND ANOTHER
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6 max-w-2xl text-white">
+      <div>
+        <label htmlFor="contact-name" className="block mb-2 font-bold">NAME</label>
+        <input id="contact-name" name="name" type="text" value={form.name} onChange={handleChange} className={INPUT_CLASS} maxLength={100} required />
+        {fieldErrors.name && <p className="text-red-400 text-sm mt-1">{fieldErrors.name}</p>}
+      </div>
+
+      <div>
+        <label htmlFor="contact-email" className="block mb-2 font-bold">EMAIL</label>
+        <input id="contact-email" name="email" type="email" value={form.email} onChange={handleChange} className={INPUT_CLASS} required />
+        {fieldErrors.email && <p className="text-red-400 text-sm mt-1">{fieldErrors.email}</p>}
+      </div>
+
+      <div>
+        <label htmlFor="contact-message" className="block mb-2 font-bold">MESSAGE</label>
+        <textarea id="contact-message" name="message" value={form.message} onChange={handleChange} rows={8} className={INPUT_CLASS} maxLength={5000} required />
+        {fieldErrors.message && <p className="text-red-400 text-sm mt-1">{fieldErrors.message}</p>}
+      </div>
+
+      {/* Hidden from people; bots that fill in every field give themselves away */}
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <label htmlFor="contact-website">Website</label>
+        <input id="contact-website" name="website" type="text" value={form.website} onChange={handleChange} tabIndex={-1} autoComplete="off" />
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={sending}
+        className="border-4 border-white bg-white text-black px-6 py-3 font-bold hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {sending ? 'SENDING...' : 'SEND MESSAGE'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+
+interface DraftPreviewBannerProps {
+  expiresAt: string;
+}
+
+// Shown above a thought or project opened through a preview link, so nobody
+// mistakes the draft for the published page
+export default function DraftPreviewBanner({ expiresAt }: DraftPreviewBannerProps) {
+  return (
+    <div className="sticky top-0 z-50 mb-8 border-4 border-black bg-yellow-300 px-4 py-3 font-mono text-black">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <strong className="text-lg tracking-widest">DRAFT PREVIEW</strong>
+        <span className="text-sm">
+          Not published. This link expires{' '}
+          {new Date(expiresAt).toLocaleString('en-US', {
+            month: 'long',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit'
+          })}
+          .
+        </span>
+      </div>
+    </div>
+  );
+}
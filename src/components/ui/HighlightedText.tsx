@@ -0,0 +1,19 @@
+import React from 'react';
+import { SearchTextPart } from '@/types/search';
+
+// Renders a search title or snippet with the matched words marked
+export default function HighlightedText({ parts }: { parts: SearchTextPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-300 text-black">
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,477 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { GraphNode, GraphNodeType, KnowledgeGraph as GraphData } from '@/types/graph';
+
+// The drawing is laid out in these units and scaled to the width of the page
+const WIDTH = 1000;
+const HEIGHT = 640;
+
+// Force layout: nodes push each other apart, edges pull their ends together
+// and a weak pull keeps everything near the middle. It runs a fixed number of
+// steps while the forces cool down, then stops.
+const REPULSION = 1800;
+const LINK_DISTANCE = 60;
+const LINK_STRENGTH = 0.05;
+const GRAVITY = 0.02;
+const FRICTION = 0.8;
+const STEPS = 300;
+const STEPS_PER_FRAME = 5;
+
+const MIN_ZOOM = 0.4;
+const MAX_ZOOM = 4;
+// Item titles show from this zoom on; before that only on hover and when filtering
+const LABEL_ZOOM = 1.6;
+
+const NODE_COLORS: Record<GraphNodeType, string> = {
+  thought: '#cff27e', // mindaro
+  project: '#e5b25d', // hunyadi
+  tag: '#523a34', // van dyke
+};
+
+const TYPE_LABELS: Record<GraphNodeType, string> = {
+  thought: 'Thought',
+  project: 'Project',
+  tag: 'Tag',
+};
+
+interface Position {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+interface View {
+  x: number;
+  y: number;
+  k: number;
+}
+
+const INITIAL_VIEW: View = { x: 0, y: 0, k: 1 };
+
+// A sunflower spiral, so the layout starts spread out and settles the same way
+// on every visit
+function initialPositions(count: number): Position[] {
+  return Array.from({ length: count }, (_, i) => {
+    const radius = 12 * Math.sqrt(i + 0.5);
+    const angle = i * Math.PI * (3 - Math.sqrt(5));
+    return { x: WIDTH / 2 + radius * Math.cos(angle), y: HEIGHT / 2 + radius * Math.sin(angle), vx: 0, vy: 0 };
+  });
+}
+
+// One step of the layout; alpha goes from 1 to 0 as it cools
+function simulate(positions: Position[], links: [number, number][], alpha: number) {
+  for (let i = 0; i < positions.length; i++) {
+    const a = positions[i];
+    for (let j = i + 1; j < positions.length; j++) {
+      const b = positions[j];
+      const dx = b.x - a.x || 0.01;
+      const dy = b.y - a.y || 0.01;
+      const distanceSquared = Math.max(dx * dx + dy * dy, 25);
+      const distance = Math.sqrt(distanceSquared);
+      const force = (REPULSION * alpha) / distanceSquared;
+      a.vx -= (dx / distance) * force;
+      a.vy -= (dy / distance) * force;
+      b.vx += (dx / distance) * force;
+      b.vy += (dy / distance) * force;
+    }
+  }
+
+  for (const [i, j] of links) {
+    const a = positions[i];
+    const b = positions[j];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+    const force = (distance - LINK_DISTANCE) * LINK_STRENGTH * alpha;
+    a.vx += (dx / distance) * force;
+    a.vy += (dy / distance) * force;
+    b.vx -= (dx / distance) * force;
+    b.vy -= (dy / distance) * force;
+  }
+
+  for (const position of positions) {
+    position.vx = (position.vx + (WIDTH / 2 - position.x) * GRAVITY * alpha) * FRICTION;
+    position.vy = (position.vy + (HEIGHT / 2 - position.y) * GRAVITY * alpha) * FRICTION;
+    position.x += position.vx;
+    position.y += position.vy;
+  }
+}
+
+// A point on the screen in drawing units
+function toDrawing(svg: SVGSVGElement, clientX: number, clientY: number) {
+  const rect = svg.getBoundingClientRect();
+  return {
+    x: ((clientX - rect.left) / rect.width) * WIDTH,
+    y: ((clientY - rect.top) / rect.height) * HEIGHT,
+  };
+}
+
+// Zooms while keeping `point` where it is on screen
+function zoomAround(view: View, point: { x: number; y: number }, factor: number): View {
+  const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.k * factor));
+  return {
+    k,
+    x: point.x - ((point.x - view.x) * k) / view.k,
+    y: point.y - ((point.y - view.y) * k) / view.k,
+  };
+}
+
+function nodeRadius(node: GraphNode, degree: number) {
+  return (node.type === 'tag' ? 4 : node.type === 'project' ? 8 : 6) + Math.sqrt(degree) * 1.5;
+}
+
+// Thoughts, projects and tags from /api/graph as a force-directed graph. Drag
+// to pan, scroll or use the buttons to zoom, hover for a preview, click an
+// item to open it and a tag to show only what carries it.
+export default function KnowledgeGraph() {
+  const router = useRouter();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const panStart = useRef<{ clientX: number; clientY: number; view: View } | null>(null);
+
+  const [graph, setGraph] = useState<GraphData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/graph')
+      .then(res => {
+        if (!res.ok) {
+          throw new Error('Failed to fetch graph');
+        }
+        return res.json();
+      })
+      .then((data: GraphData) => {
+        setGraph(data);
+        setError(null);
+      })
+      .catch(error => {
+        console.error('Error fetching graph:', error);
+        setError('Failed to load the graph. Please try again later.');
+      });
+  }, []);
+
+  // Lookups the drawing needs, by node index and id
+  const { indexById, links, degrees, neighbours, tags } = useMemo(() => {
+    const indexById = new Map((graph?.nodes ?? []).map((node, index) => [node.id, index]));
+    const degrees = new Map<string, number>();
+    const neighbours = new Map<string, Set<string>>();
+    const links: [number, number][] = [];
+
+    for (const edge of graph?.edges ?? []) {
+      const source = indexById.get(edge.source);
+      const target = indexById.get(edge.target);
+      if (source === undefined || target === undefined) continue;
+
+      links.push([source, target]);
+      for (const [id, other] of [[edge.source, edge.target], [edge.target, edge.source]]) {
+        degrees.set(id, (degrees.get(id) ?? 0) + 1);
+        neighbours.set(id, (neighbours.get(id) ?? new Set()).add(other));
+      }
+    }
+
+    // Most used first
+    const tags = (graph?.nodes ?? [])
+      .filter(node => node.type === 'tag')
+      .sort((a, b) => (degrees.get(b.id) ?? 0) - (degrees.get(a.id) ?? 0) || a.label.localeCompare(b.label));
+
+    return { indexById, links, degrees, neighbours, tags };
+  }, [graph]);
+
+  // Runs the layout, drawing every few steps. With reduced motion it is
+  // worked out in one go and drawn once.
+  useEffect(() => {
+    if (!graph) return;
+
+    const current = initialPositions(graph.nodes.length);
+
+    if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+      for (let step = 0; step < STEPS; step++) {
+        simulate(current, links, 1 - step / STEPS);
+      }
+      setPositions(current);
+      return;
+    }
+
+    let step = 0;
+    let frame = 0;
+    const tick = () => {
+      for (let i = 0; i < STEPS_PER_FRAME && step < STEPS; i++, step++) {
+        simulate(current, links, 1 - step / STEPS);
+      }
+      setPositions(current.map(position => ({ ...position })));
+      if (step < STEPS) {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [graph, links]);
+
+  // React's wheel handler is passive and can't stop the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const point = toDrawing(svg, event.clientX, event.clientY);
+      setView(current => zoomAround(current, point, Math.exp(-event.deltaY * 0.002)));
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [graph]);
+
+  // With a tag picked, the tag and what carries it; null shows everything
+  const filteredIds = useMemo(() => {
+    if (!graph || !activeTag) return null;
+    return new Set([
+      `tag:${activeTag}`,
+      ...graph.nodes.filter(node => node.tags.includes(activeTag)).map(node => node.id),
+    ]);
+  }, [graph, activeTag]);
+
+  // While hovering, the node and its neighbours
+  const hoveredIds = hoveredId ? new Set([hoveredId, ...Array.from(neighbours.get(hoveredId) ?? [])]) : null;
+
+  const isDimmed = (id: string) => (filteredIds !== null && !filteredIds.has(id)) || (hoveredIds !== null && !hoveredIds.has(id));
+
+  const openNode = (node: GraphNode) => {
+    if (node.url) {
+      router.push(node.url);
+    } else {
+      setActiveTag(current => (current === node.label ? null : node.label));
+    }
+  };
+
+  const handlePanStart = (event: React.PointerEvent<SVGRectElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    panStart.current = { clientX: event.clientX, clientY: event.clientY, view };
+  };
+
+  const handlePanMove = (event: React.PointerEvent<SVGRectElement>) => {
+    const start = panStart.current;
+    const svg = svgRef.current;
+    if (!start || !svg) return;
+
+    const rect = svg.getBoundingClientRect();
+    setView({
+      ...start.view,
+      x: start.view.x + ((event.clientX - start.clientX) / rect.width) * WIDTH,
+      y: start.view.y + ((event.clientY - start.clientY) / rect.height) * HEIGHT,
+    });
+  };
+
+  const handlePanEnd = () => {
+    panStart.current = null;
+  };
+
+  const zoomBy = (factor: number) => {
+    setView(current => zoomAround(current, { x: WIDTH / 2, y: HEIGHT / 2 }, factor));
+  };
+
+  if (error) {
+    return <div className="brutalist-box bg-red-50 text-red-600">{error}</div>;
+  }
+
+  if (!graph) {
+    return <div className="brutalist-box animate-pulse" style={{ aspectRatio: `${WIDTH} / ${HEIGHT}` }} />;
+  }
+
+  if (graph.nodes.length === 0) {
+    return <div className="brutalist-box">Nothing to connect yet.</div>;
+  }
+
+  const counts = graph.nodes.reduce<Record<GraphNodeType, number>>(
+    (total, node) => ({ ...total, [node.type]: total[node.type] + 1 }),
+    { thought: 0, project: 0, tag: 0 }
+  );
+
+  const hovered = hoveredId ? indexById.get(hoveredId) : undefined;
+  const hoveredNode = hovered !== undefined ? graph.nodes[hovered] : null;
+  const hoveredPosition = hovered !== undefined ? positions[hovered] : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="brutalist-box">
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm font-mono">
+          {(Object.keys(TYPE_LABELS) as GraphNodeType[]).map(type => (
+            <span key={type} className="flex items-center gap-2">
+              <span
+                className={`inline-block w-3 h-3 border-2 border-black ${type === 'project' ? '' : 'rounded-full'}`}
+                style={{ backgroundColor: NODE_COLORS[type] }}
+              />
+              {counts[type]} {TYPE_LABELS[type].toLowerCase()}{counts[type] === 1 ? '' : 's'}
+            </span>
+          ))}
+        </div>
+
+        {tags.length > 0 && (
+          <div className="tags mt-4">
+            {tags.map(tag => (
+              <button
+                key={tag.id}
+                onClick={() => setActiveTag(activeTag === tag.label ? null : tag.label)}
+                className={`tag ${activeTag === tag.label ? 'bg-mindaro' : ''}`}
+                aria-pressed={activeTag === tag.label}
+              >
+                {tag.label}
+              </button>
+            ))}
+            {activeTag && (
+              <button onClick={() => setActiveTag(null)} className="ml-2 text-blue-600 hover:underline">
+                Clear filter
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="relative border-4 border-black bg-white shadow-[8px_8px_0_0_#000] overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="block w-full h-auto select-none"
+          style={{ aspectRatio: `${WIDTH} / ${HEIGHT}`, touchAction: 'none' }}
+          role="group"
+          aria-label="Graph of thoughts, projects and tags"
+        >
+          <rect
+            width={WIDTH}
+            height={HEIGHT}
+            fill="transparent"
+            className="cursor-grab active:cursor-grabbing"
+            onPointerDown={handlePanStart}
+            onPointerMove={handlePanMove}
+            onPointerUp={handlePanEnd}
+            onPointerCancel={handlePanEnd}
+          />
+
+          {positions.length === graph.nodes.length && (
+            <g transform={`translate(${view.x} ${view.y}) scale(${view.k})`}>
+              {graph.edges.map(edge => {
+                const source = positions[indexById.get(edge.source) ?? -1];
+                const target = positions[indexById.get(edge.target) ?? -1];
+                if (!source || !target) return null;
+
+                const touchesHovered = hoveredId === edge.source || hoveredId === edge.target;
+                const dimmed = isDimmed(edge.source) || isDimmed(edge.target) || (hoveredId !== null && !touchesHovered);
+
+                return (
+                  <line
+                    key={`${edge.source} ${edge.target}`}
+                    x1={source.x}
+                    y1={source.y}
+                    x2={target.x}
+                    y2={target.y}
+                    stroke={edge.kind === 'tag' ? '#523a34' : '#000'}
+                    strokeWidth={(edge.kind === 'tag' ? 1 : 2) / view.k}
+                    strokeDasharray={edge.kind === 'reference' ? `${4 / view.k} ${3 / view.k}` : undefined}
+                    strokeOpacity={dimmed ? 0.08 : edge.kind === 'tag' ? 0.35 : 0.8}
+                  />
+                );
+              })}
+
+              {graph.nodes.map((node, index) => {
+                const position = positions[index];
+                const radius = nodeRadius(node, degrees.get(node.id) ?? 0);
+                const dimmed = isDimmed(node.id);
+                const showLabel = !dimmed && (
+                  node.type === 'tag' || view.k >= LABEL_ZOOM || hoveredIds !== null || filteredIds !== null
+                );
+
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${position.x} ${position.y})`}
+                    className="cursor-pointer focus:outline-none"
+                    style={{ opacity: dimmed ? 0.2 : 1 }}
+                    tabIndex={0}
+                    role={node.url ? 'link' : 'button'}
+                    aria-label={`${TYPE_LABELS[node.type]}: ${node.label}`}
+                    onMouseEnter={() => setHoveredId(node.id)}
+                    onMouseLeave={() => setHoveredId(null)}
+                    onFocus={() => setHoveredId(node.id)}
+                    onBlur={() => setHoveredId(null)}
+                    onClick={() => openNode(node)}
+                    onKeyDown={event => {
+                      if (event.key === 'Enter' || event.key === ' ') {
+                        event.preventDefault();
+                        openNode(node);
+                      }
+                    }}
+                  >
+                    {node.type === 'project' ? (
+                      <rect
+                        x={-radius}
+                        y={-radius}
+                        width={radius * 2}
+                        height={radius * 2}
+                        fill={NODE_COLORS[node.type]}
+                        stroke="#000"
+                        strokeWidth={2 / view.k}
+                      />
+                    ) : (
+                      <circle
+                        r={radius}
+                        fill={NODE_COLORS[node.type]}
+                        stroke="#000"
+                        strokeWidth={(node.id === hoveredId || (node.type === 'tag' && node.label === activeTag) ? 4 : 2) / view.k}
+                      />
+                    )}
+                    {showLabel && (
+                      <text
+                        y={-radius - 4 / view.k}
+                        textAnchor="middle"
+                        fontSize={(node.type === 'tag' ? 10 : 12) / view.k}
+                        fontFamily="var(--font-mono)"
+                        fontWeight={node.type === 'tag' ? 'bold' : 'normal'}
+                        fill="#000"
+                        paintOrder="stroke"
+                        stroke="#fff"
+                        strokeWidth={3 / view.k}
+                      >
+                        {node.label}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          )}
+        </svg>
+
+        <div className="absolute top-2 right-2 flex gap-1">
+          <button onClick={() => zoomBy(1.25)} className="tag bg-white" aria-label="Zoom in">+</button>
+          <button onClick={() => zoomBy(0.8)} className="tag bg-white" aria-label="Zoom out">−</button>
+          <button onClick={() => setView(INITIAL_VIEW)} className="tag bg-white">Reset</button>
+        </div>
+
+        {hoveredNode && hoveredPosition && (
+          <div
+            className="absolute pointer-events-none z-10 w-64 bg-white border-2 border-black shadow-[4px_4px_0_0_#000] p-3 text-sm"
+            style={{
+              left: `${((hoveredPosition.x * view.k + view.x) / WIDTH) * 100}%`,
+              top: `${((hoveredPosition.y * view.k + view.y) / HEIGHT) * 100}%`,
+              transform: 'translate(-50%, calc(-100% - 16px))',
+            }}
+          >
+            <div className="font-mono text-xs uppercase text-gray-500">{TYPE_LABELS[hoveredNode.type]}</div>
+            <div className="font-bold">{hoveredNode.label}</div>
+            {hoveredNode.summary && <p className="mt-1 text-gray-700">{hoveredNode.summary}</p>}
+            {hoveredNode.tags.length > 0 && (
+              <p className="mt-1 font-mono text-xs text-gray-500">{hoveredNode.tags.join(' · ')}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useState } from 'react';
+
+// The button on the pages the newsletter emails link to. Opening the link
+// changes nothing, since mail scanners and prefetchers open links too; the
+// subscription only changes when the reader presses the button.
+
+type Action = 'confirm' | 'unsubscribe';
+
+const TEXT: Record<Action, { title: string; doneTitle: string; button: string; pending: string; error: string }> = {
+  confirm: {
+    title: 'CONFIRM SUBSCRIPTION',
+    doneTitle: 'SUBSCRIBED',
+    button: 'CONFIRM',
+    pending: 'CONFIRMING...',
+    error: 'Failed to confirm. Please try again.',
+  },
+  unsubscribe: {
+    title: 'UNSUBSCRIBE',
+    doneTitle: 'UNSUBSCRIBED',
+    button: 'UNSUBSCRIBE',
+    pending: 'UNSUBSCRIBING...',
+    error: 'Failed to unsubscribe. Please try again.',
+  },
+};
+
+export default function NewsletterLinkAction({
+  action,
+  token,
+  email,
+}: {
+  action: Action;
+  token: string;
+  email: string;
+}) {
+  const [sending, setSending] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState('');
+  const text = TEXT[action];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/newsletter/${action}?token=${encodeURIComponent(token)}`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || text.error);
+        return;
+      }
+
+      setDone(true);
+    } catch (err) {
+      console.error(`Error with newsletter ${action}:`, err);
+      setError(text.error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <>
+        <h1>{text.doneTitle}</h1>
+        <div className="brutalist-box">
+          {action === 'confirm' ? (
+            <p>
+              You&apos;ll get an email at <strong>{email}</strong> whenever a new thought is published.
+              Every email has a link to unsubscribe.
+            </p>
+          ) : (
+            <p>
+              <strong>{email}</strong> won&apos;t get any more emails about new thoughts.
+              Changed your mind? Subscribe again from any thought.
+            </p>
+          )}
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <h1>{text.title}</h1>
+      <form onSubmit={handleSubmit} className="brutalist-box">
+        {action === 'confirm' ? (
+          <p className="mb-4">Send an email to <strong>{email}</strong> whenever a new thought is published?</p>
+        ) : (
+          <p className="mb-4">Stop sending emails about new thoughts to <strong>{email}</strong>?</p>
+        )}
+        <button
+          type="submit"
+          disabled={sending}
+          className="border-2 border-black bg-black text-white px-6 py-3 font-bold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {sending ? text.pending : text.button}
+        </button>
+        {error && <p className="text-red-600 mt-2">{error}</p>}
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+
+interface OutboundLinkProps {
+  href: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// An external link that can sit inside a card that is itself a link: it opens
+// in a new tab without also following the card
+export default function OutboundLink({ href, className, children }: OutboundLinkProps) {
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={className}
+      onClick={(e) => {
+        e.stopPropagation();
+        e.preventDefault();
+        window.open(href, '_blank');
+      }}
+    >
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+// Bar across the top of the viewport that fills as the reader scrolls through
+// the element with the given id
+export default function ReadingProgress({ targetId }: { targetId: string }) {
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    const update = () => {
+      const target = document.getElementById(targetId);
+      if (!target) return;
+
+      const { top, height } = target.getBoundingClientRect();
+      const scrollable = height - window.innerHeight;
+
+      setProgress(scrollable <= 0 ? Number(top <= 0) : Math.min(Math.max(-top / scrollable, 0), 1));
+    };
+
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [targetId]);
+
+  return (
+    <div className="fixed top-0 left-0 right-0 h-1 z-50 pointer-events-none" aria-hidden="true">
+      <div className="h-full bg-black origin-left" style={{ transform: `scaleX(${progress})` }} />
+    </div>
+  );
+}
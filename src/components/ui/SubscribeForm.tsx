@@ -0,0 +1,84 @@
+'use client';
+
+import React, { useState } from 'react';
+
+// Newsletter sign-up for the thoughts pages. Posts to
+// /api/newsletter/subscribe, which mails a confirmation link.
+export default function SubscribeForm() {
+  const [email, setEmail] = useState('');
+  const [website, setWebsite] = useState('');
+  const [error, setError] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/newsletter/subscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, website }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.fieldErrors?.email || data.error || 'Failed to subscribe. Please try again.');
+        return;
+      }
+
+      setSent(true);
+    } catch (err) {
+      console.error('Error subscribing:', err);
+      setError('Failed to subscribe. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="brutalist-box">
+        <h3>CHECK YOUR INBOX</h3>
+        <p>We sent a confirmation link to <strong>{email}</strong>. Open it to start getting new thoughts by email.</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="brutalist-box">
+      <h3>GET NEW THOUGHTS BY EMAIL</h3>
+      <p className="mb-4">One email per new thought. No spam, unsubscribe with one click.</p>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <label htmlFor="subscribe-email" className="sr-only">Email</label>
+        <input
+          id="subscribe-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          className="flex-1 p-3 border-2 border-black focus:outline-none focus:border-blue-600"
+          required
+        />
+        <button
+          type="submit"
+          disabled={sending}
+          className="border-2 border-black bg-black text-white px-6 py-3 font-bold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {sending ? 'SUBSCRIBING...' : 'SUBSCRIBE'}
+        </button>
+      </div>
+
+      {/* Hidden from people; bots that fill in every field give themselves away */}
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <label htmlFor="subscribe-website">Website</label>
+        <input id="subscribe-website" type="text" value={website} onChange={(e) => setWebsite(e.target.value)} tabIndex={-1} autoComplete="off" />
+      </div>
+
+      {error && <p className="text-red-600 mt-2">{error}</p>}
+    </form>
+  );
+}
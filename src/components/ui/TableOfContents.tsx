@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { TocHeading } from '@/types/blog';
+
+// A heading counts as the current section once its top has scrolled above
+// this line, in pixels from the top of the viewport (below the fixed navbar)
+const ACTIVE_OFFSET = 120;
+
+// Sticky list of the article's headings; the section being read is highlighted
+export default function TableOfContents({ headings }: { headings: TocHeading[] }) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const minDepth = Math.min(...headings.map(heading => heading.depth));
+
+  useEffect(() => {
+    const update = () => {
+      let current: string | null = null;
+      for (const heading of headings) {
+        const element = document.getElementById(heading.id);
+        if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET) {
+          current = heading.id;
+        }
+      }
+      setActiveId(current);
+    };
+
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [headings]);
+
+  return (
+    <nav aria-label="Table of contents" className="brutalist-box lg:sticky lg:top-24 lg:max-h-[calc(100vh-8rem)] lg:overflow-y-auto">
+      <h2 className="text-sm font-bold tracking-widest mb-3">CONTENTS</h2>
+      <ol className="space-y-1 text-sm">
+        {headings.map(heading => (
+          <li key={heading.id} style={{ paddingLeft: `${(heading.depth - minDepth) * 0.75}rem` }}>
+            <a
+              href={`#${heading.id}`}
+              aria-current={activeId === heading.id ? 'location' : undefined}
+              className={`block px-1 border-l-4 ${
+                activeId === heading.id ? 'border-black bg-mindaro font-bold' : 'border-transparent hover:border-gray-400'
+              }`}
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
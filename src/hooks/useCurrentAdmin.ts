@@ -0,0 +1,29 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { AdminRole, Permission } from '@/lib/permissions'
+import { hasPermission } from '@/lib/permissions'
+import { adminFetch } from '@/lib/admin-fetch'
+
+export type CurrentAdmin = {
+  id: string
+  username: string
+  role: AdminRole
+}
+
+// Loads the signed-in admin. The API enforces permissions on its own; this is
+// only used to hide controls that would be rejected anyway.
+export function useCurrentAdmin() {
+  const [admin, setAdmin] = useState<CurrentAdmin | null>(null)
+
+  useEffect(() => {
+    adminFetch('/api/admin/me', { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(setAdmin)
+      .catch(error => console.error('Error fetching current admin:', error))
+  }, [])
+
+  const can = (permission: Permission) => !!admin && hasPermission(admin.role, permission)
+
+  return { admin, can }
+}
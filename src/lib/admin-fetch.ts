@@ -0,0 +1,55 @@
+// Client-side fetch for the admin API. Access tokens expire after a few
+// minutes, so a 401 triggers one refresh of the session and a retry.
+// Mutations also carry the session's CSRF token, which the middleware checks.
+
+// Mirror SESSION_REFRESH_PATH, ADMIN_CSRF_COOKIE and CSRF_HEADER; lib/auth is
+// kept out of the browser bundle
+const REFRESH_PATH = '/api/admin/sessions/refresh'
+const CSRF_COOKIE = 'admin_csrf'
+const CSRF_HEADER = 'x-csrf-token'
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+// Shared so parallel requests that all get a 401 only rotate the token once
+let pendingRefresh: Promise<boolean> | null = null
+
+function refreshSession() {
+  pendingRefresh ??= fetch(REFRESH_PATH, { method: 'POST', credentials: 'include' })
+    .then(res => res.ok)
+    .catch(() => false)
+    .finally(() => {
+      pendingRefresh = null
+    })
+
+  return pendingRefresh
+}
+
+function readCsrfToken() {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${CSRF_COOKIE}=([^;]*)`))
+  return match ? decodeURIComponent(match[1]) : null
+}
+
+// Read the token on every call: it is reissued whenever the session refreshes
+function withCsrfToken(init: RequestInit): RequestInit {
+  const method = (init.method ?? 'GET').toUpperCase()
+  const token = readCsrfToken()
+
+  if (SAFE_METHODS.includes(method) || !token) {
+    return { credentials: 'include', ...init }
+  }
+
+  const headers = new Headers(init.headers)
+  headers.set(CSRF_HEADER, token)
+
+  return { credentials: 'include', ...init, headers }
+}
+
+export async function adminFetch(input: string, init: RequestInit = {}) {
+  const response = await fetch(input, withCsrfToken(init))
+
+  if (response.status !== 401 || !(await refreshSession())) {
+    return response
+  }
+
+  return fetch(input, withCsrfToken(init))
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { prisma } from '@/lib/db'
+import { ADMIN_TOKEN_COOKIE, verifyAdminToken } from '@/lib/auth'
+import { hashPassword } from '@/lib/password'
+import { Permission, hasPermission } from '@/lib/permissions'
+import { getActiveSession } from '@/lib/sessions'
+import { normalizeUsername } from '@/lib/validation'
+
+// Fields that are safe to send to the admin UI (never the password hash)
+export const adminUserSelect = {
+  id: true,
+  username: true,
+  role: true,
+  disabled: true,
+  totpEnabledAt: true,
+  lastLoginAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
+// Resolves the signed-in admin from the request cookies. Revoked sessions and
+// disabled or deleted accounts are treated as signed out even if the access
+// token has not expired yet.
+export async function getCurrentAdmin() {
+  const payload = await verifyAdminToken(cookies().get(ADMIN_TOKEN_COOKIE)?.value)
+
+  if (!payload) {
+    return null
+  }
+
+  const session = await getActiveSession(payload.sid)
+
+  if (!session || session.userId !== payload.sub) {
+    return null
+  }
+
+  return { ...session.user, sessionId: session.id }
+}
+
+export type CurrentAdmin = NonNullable<Awaited<ReturnType<typeof getCurrentAdmin>>>
+
+export function forbidden(message: string) {
+  return NextResponse.json({ error: message }, { status: 403 })
+}
+
+// Route handler guard. The middleware already rejects requests without a
+// valid token, but roles can change after a token was issued, so handlers
+// re-check against the database before doing anything.
+export async function requireAdmin(
+  permission?: Permission
+): Promise<{ admin: CurrentAdmin; error?: never } | { admin?: never; error: NextResponse }> {
+  const admin = await getCurrentAdmin()
+
+  if (!admin) {
+    return {
+      error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }),
+    }
+  }
+
+  if (permission && !hasPermission(admin.role, permission)) {
+    return {
+      error: forbidden(`Your role (${admin.role.toLowerCase()}) does not allow this action`),
+    }
+  }
+
+  return { admin }
+}
+
+// The first account is created from ADMIN_USERNAME / ADMIN_PASSWORD so an
+// existing deployment can still sign in after upgrading. Once any AdminUser
+// row exists the environment variables are ignored.
+export async function bootstrapAdminFromEnv() {
+  const username = normalizeUsername(process.env.ADMIN_USERNAME)
+  const password = process.env.ADMIN_PASSWORD
+
+  if (!username || !password) {
+    return
+  }
+
+  const existingUsers = await prisma.adminUser.count()
+  if (existingUsers > 0) {
+    return
+  }
+
+  await prisma.adminUser.create({
+    data: {
+      username,
+      passwordHash: await hashPassword(password),
+      role: 'OWNER',
+    },
+  })
+
+  console.log(`Created initial admin account "${username}" from environment variables`)
+}
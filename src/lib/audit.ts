@@ -0,0 +1,100 @@
+import { AuditAction, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+export const AUDIT_ENTITY_TYPES = ['BlogPost', 'Project'] as const
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number]
+
+export const AUDIT_ACTIONS = Object.values(AuditAction)
+
+// The fields worth recording for each entity. Timestamps and ids are left out.
+const AUDITED_FIELDS: Record<AuditEntityType, string[]> = {
+  BlogPost: ['title', 'slug', 'content', 'excerpt', 'tags', 'published', 'publishAt', 'unpublishAt'],
+  Project: [
+    'title',
+    'slug',
+    'description',
+    'content',
+    'imageUrl',
+    'repoUrl',
+    'demoUrl',
+    'technologies',
+    'featured',
+    'published',
+    'publishAt',
+    'unpublishAt',
+  ],
+}
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>
+
+type Auditable = { id: string; title?: string | null }
+
+// Pass null for `before` on create and for `after` on delete
+export function diffFields(
+  entityType: AuditEntityType,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChanges {
+  const changes: FieldChanges = {}
+
+  for (const field of AUDITED_FIELDS[entityType]) {
+    const from = before?.[field] ?? null
+    const to = after?.[field] ?? null
+
+    // Arrays (tags, technologies) are compared by value
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to }
+    }
+  }
+
+  return changes
+}
+
+// An update that flips `published` is logged as a publish or unpublish
+export function updateAction(before: { published: boolean }, after: { published: boolean }): AuditAction {
+  if (before.published === after.published) {
+    return 'UPDATE'
+  }
+
+  return after.published ? 'PUBLISH' : 'UNPUBLISH'
+}
+
+// Records one change to a thought or project. Like login attempts, a failed
+// audit write is logged but never undoes the change itself.
+export async function recordAuditEvent({
+  actor,
+  action,
+  entityType,
+  before,
+  after,
+}: {
+  actor: { id: string; username: string }
+  action: AuditAction
+  entityType: AuditEntityType
+  before: (Auditable & Record<string, unknown>) | null
+  after: (Auditable & Record<string, unknown>) | null
+}) {
+  const entity = (after ?? before)!
+  const changes = diffFields(entityType, before, after)
+
+  // Saving a form without changing anything isn't worth an entry
+  if (action === 'UPDATE' && Object.keys(changes).length === 0) {
+    return
+  }
+
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        actorId: actor.id,
+        actorUsername: actor.username,
+        action,
+        entityType,
+        entityId: entity.id,
+        entityTitle: entity.title ?? null,
+        changes: changes as Prisma.InputJsonObject,
+      },
+    })
+  } catch (error) {
+    console.error('Error recording audit event:', error)
+  }
+}
@@ -0,0 +1,207 @@
+import * as jose from 'jose'
+import { AdminRole, isAdminRole } from '@/lib/permissions'
+
+// Shared by the middleware (edge runtime) and the route handlers, so this
+// module must not import Prisma or any Node-only APIs.
+
+export const ADMIN_TOKEN_COOKIE = 'admin_token'
+export const ADMIN_REFRESH_COOKIE = 'admin_refresh'
+// Readable by the admin UI, which echoes it back in the CSRF_HEADER
+export const ADMIN_CSRF_COOKIE = 'admin_csrf'
+export const CSRF_HEADER = 'x-csrf-token'
+
+// Access tokens are short-lived; the session is kept alive by rotating the
+// refresh token, which is checked against the Session table on every use.
+export const TOKEN_EXPIRY = '15m'
+export const TOKEN_MAX_AGE = 60 * 15 // 15 minutes, in seconds
+export const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 7 // 7 days, in seconds
+
+// The refresh cookie is scoped to the refresh endpoint, so it is never sent
+// along with ordinary requests
+export const SESSION_REFRESH_PATH = '/api/admin/sessions/refresh'
+export const SESSION_VERIFY_PATH = '/api/admin/sessions/verify'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-key-for-development-only'
+
+export interface AdminTokenPayload {
+  sub: string
+  // Id of the Session row the token was issued for
+  sid: string
+  username: string
+  role: AdminRole
+}
+
+function getSecret() {
+  return new TextEncoder().encode(JWT_SECRET)
+}
+
+export async function signAdminToken(payload: AdminTokenPayload) {
+  return new jose.SignJWT({ sid: payload.sid, username: payload.username, role: payload.role })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(payload.sub)
+    .setIssuedAt()
+    .setExpirationTime(TOKEN_EXPIRY)
+    .sign(getSecret())
+}
+
+// Returns the token payload, or null if the token is missing, expired or forged
+export async function verifyAdminToken(token: string | undefined): Promise<AdminTokenPayload | null> {
+  if (!token) {
+    return null
+  }
+
+  try {
+    const { payload } = await jose.jwtVerify(token, getSecret())
+
+    if (
+      typeof payload.sub !== 'string' ||
+      typeof payload.sid !== 'string' ||
+      typeof payload.username !== 'string' ||
+      !isAdminRole(payload.role)
+    ) {
+      return null
+    }
+
+    return { sub: payload.sub, sid: payload.sid, username: payload.username, role: payload.role }
+  } catch {
+    return null
+  }
+}
+
+// Short-lived token handed out after a correct password when the account has
+// two-factor authentication enabled. It proves the first factor only and is
+// never accepted as a session.
+const MFA_CHALLENGE_EXPIRY = '5m'
+
+export async function signMfaChallenge(userId: string) {
+  return new jose.SignJWT({ purpose: 'mfa' })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(userId)
+    .setIssuedAt()
+    .setExpirationTime(MFA_CHALLENGE_EXPIRY)
+    .sign(getSecret())
+}
+
+// Returns the user id the challenge was issued for, or null
+export async function verifyMfaChallenge(token: unknown): Promise<string | null> {
+  if (typeof token !== 'string') {
+    return null
+  }
+
+  try {
+    const { payload } = await jose.jwtVerify(token, getSecret())
+    return payload.purpose === 'mfa' && typeof payload.sub === 'string' ? payload.sub : null
+  } catch {
+    return null
+  }
+}
+
+// CSRF tokens are an HMAC of the session id, so they are tied to one session
+// and can be checked without a database lookup. A cross-site page can make
+// the browser send cookies, but it can't read the token to put in a header.
+export async function createCsrfToken(sessionId: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    getSecret(),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`csrf:${sessionId}`))
+
+  return jose.base64url.encode(new Uint8Array(signature))
+}
+
+export async function verifyCsrfToken(sessionId: string, token: string | null) {
+  if (!token) {
+    return false
+  }
+
+  const expected = await createCsrfToken(sessionId)
+
+  // Compare without bailing out early on the first differing character
+  let diff = expected.length ^ token.length
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ token.charCodeAt(i)
+  }
+
+  return diff === 0
+}
+
+// Preview tokens let anyone holding the link view one unpublished thought or
+// project. They name the item by id, so a preview survives a slug change, and
+// they can't be revoked other than by waiting out the expiry.
+export type PreviewEntityType = 'BlogPost' | 'Project'
+
+export const PREVIEW_EXPIRY_OPTIONS = ['1h', '24h', '7d'] as const
+export type PreviewExpiry = (typeof PREVIEW_EXPIRY_OPTIONS)[number]
+
+export async function signPreviewToken(entityType: PreviewEntityType, entityId: string, expiry: PreviewExpiry) {
+  return new jose.SignJWT({ purpose: 'preview', entityType })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(entityId)
+    .setIssuedAt()
+    .setExpirationTime(expiry)
+    .sign(getSecret())
+}
+
+// Returns what the token grants access to, or null if it is invalid or expired
+export async function verifyPreviewToken(
+  token: unknown
+): Promise<{ entityType: PreviewEntityType; entityId: string; expiresAt: Date } | null> {
+  if (typeof token !== 'string' || !token) {
+    return null
+  }
+
+  try {
+    const { payload } = await jose.jwtVerify(token, getSecret())
+
+    if (
+      payload.purpose !== 'preview' ||
+      (payload.entityType !== 'BlogPost' && payload.entityType !== 'Project') ||
+      typeof payload.sub !== 'string' ||
+      typeof payload.exp !== 'number'
+    ) {
+      return null
+    }
+
+    return { entityType: payload.entityType, entityId: payload.sub, expiresAt: new Date(payload.exp * 1000) }
+  } catch {
+    return null
+  }
+}
+
+// Newsletter links name the Subscriber row. Confirmation links expire;
+// unsubscribe links go into every email and have to keep working for as long
+// as that email sits in an inbox.
+export type SubscriberTokenPurpose = 'confirm' | 'unsubscribe'
+
+const CONFIRM_EXPIRY = '7d'
+
+export async function signSubscriberToken(purpose: SubscriberTokenPurpose, subscriberId: string) {
+  const jwt = new jose.SignJWT({ purpose: `newsletter-${purpose}` })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(subscriberId)
+    .setIssuedAt()
+
+  if (purpose === 'confirm') {
+    jwt.setExpirationTime(CONFIRM_EXPIRY)
+  }
+
+  return jwt.sign(getSecret())
+}
+
+// Returns the subscriber id, or null if the token is invalid, expired or was
+// issued for the other purpose
+export async function verifySubscriberToken(purpose: SubscriberTokenPurpose, token: unknown): Promise<string | null> {
+  if (typeof token !== 'string' || !token) {
+    return null
+  }
+
+  try {
+    const { payload } = await jose.jwtVerify(token, getSecret())
+    return payload.purpose === `newsletter-${purpose}` && typeof payload.sub === 'string' ? payload.sub : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,114 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { RateLimiter } from '@/lib/rate-limit'
+import type { ModerationAction, PublicComment } from '@/types/comment'
+
+// Comments per IP address per 10 minutes. Enough for a conversation, not for
+// a script.
+const COMMENTS_PER_WINDOW = 5
+
+// More links than this is how most comment spam looks
+export const MAX_COMMENT_LINKS = 2
+
+const globalForComments = globalThis as unknown as {
+  commentLimiter: RateLimiter | undefined
+}
+
+export const commentLimiter = globalForComments.commentLimiter ?? new RateLimiter({
+  limit: COMMENTS_PER_WINDOW,
+  windowMs: 10 * 60 * 1000,
+})
+
+if (process.env.NODE_ENV !== 'production') globalForComments.commentLimiter = commentLimiter
+
+export function countLinks(text: string) {
+  return (text.match(/https?:\/\/|www\./gi) ?? []).length
+}
+
+// Addresses are stored lower-cased, on comments and bans alike
+export async function isBannedEmail(email: string) {
+  const banned = await prisma.bannedEmail.findUnique({ where: { email } })
+  return banned !== null
+}
+
+export const COMMENT_STATUSES = ['PENDING', 'APPROVED', 'REJECTED'] as const
+
+
+// Nests approved comments under their parents, oldest first. A reply whose
+// parent is no longer approved is hidden along with it, so a thread never
+// shows an answer to something that isn't there.
+export async function listApprovedComments(postId: string): Promise<PublicComment[]> {
+  const comments = await prisma.comment.findMany({
+    where: { postId, status: 'APPROVED' },
+    select: { id: true, parentId: true, authorName: true, body: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const nodes = new Map<string, PublicComment>()
+  for (const comment of comments) {
+    nodes.set(comment.id, {
+      id: comment.id,
+      authorName: comment.authorName,
+      body: comment.body,
+      createdAt: comment.createdAt.toISOString(),
+      replies: [],
+    })
+  }
+
+  const roots: PublicComment[] = []
+  for (const comment of comments) {
+    const node = nodes.get(comment.id)!
+
+    if (!comment.parentId) {
+      roots.push(node)
+    } else {
+      nodes.get(comment.parentId)?.replies.push(node)
+    }
+  }
+
+  return roots
+}
+
+// Applies a bulk action from the moderation queue. Banning rejects the
+// selected comments, bans their authors' addresses and rejects everything
+// else those addresses still have waiting. Returns the slugs of the thoughts
+// whose visible comments may have changed.
+export async function moderateComments(ids: string[], action: ModerationAction, moderatorId: string) {
+  const comments = await prisma.comment.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, authorEmail: true, status: true, post: { select: { slug: true } } },
+  })
+
+  const moderated = { moderatedById: moderatorId, moderatedAt: new Date() }
+  const status = action === 'approve' ? 'APPROVED' : 'REJECTED'
+
+  const where: Prisma.CommentWhereInput = { id: { in: comments.map(comment => comment.id) } }
+  const operations: Prisma.PrismaPromise<unknown>[] = [
+    prisma.comment.updateMany({ where, data: { status, ...moderated } }),
+  ]
+
+  if (action === 'ban') {
+    const emails = Array.from(new Set(comments.map(comment => comment.authorEmail)))
+
+    operations.push(
+      prisma.bannedEmail.createMany({
+        data: emails.map(email => ({ email, bannedById: moderatorId })),
+        skipDuplicates: true,
+      }),
+      prisma.comment.updateMany({
+        where: { authorEmail: { in: emails }, status: 'PENDING' },
+        data: { status: 'REJECTED', ...moderated },
+      })
+    )
+  }
+
+  await prisma.$transaction(operations)
+
+  // Only approving, or taking down an approved comment, changes a page
+  const changed = comments.filter(comment => action === 'approve' || comment.status === 'APPROVED')
+
+  return {
+    updated: comments.length,
+    slugs: Array.from(new Set(changed.map(comment => comment.post.slug))),
+  }
+}
@@ -0,0 +1,33 @@
+import { Prisma } from '@prisma/client'
+import { RateLimiter } from '@/lib/rate-limit'
+
+// Messages accepted per IP address per hour through the contact form. Generous
+// for a person, tight enough that a script can't fill the inbox.
+const MESSAGES_PER_HOUR = 5
+
+const globalForContact = globalThis as unknown as {
+  contactLimiter: RateLimiter | undefined
+}
+
+export const contactLimiter = globalForContact.contactLimiter ?? new RateLimiter({
+  limit: MESSAGES_PER_HOUR,
+  windowMs: 60 * 60 * 1000,
+})
+
+if (process.env.NODE_ENV !== 'production') globalForContact.contactLimiter = contactLimiter
+
+export const INBOX_FOLDERS = ['inbox', 'starred', 'archived'] as const
+export type InboxFolder = (typeof INBOX_FOLDERS)[number]
+
+// Archiving takes a message out of the inbox; starred ones show up in the
+// starred folder whether or not they are archived
+export function folderWhere(folder: InboxFolder): Prisma.ContactMessageWhereInput {
+  switch (folder) {
+    case 'inbox':
+      return { archivedAt: null }
+    case 'starred':
+      return { starred: true }
+    case 'archived':
+      return { archivedAt: { not: null } }
+  }
+}
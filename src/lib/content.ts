@@ -0,0 +1,95 @@
+import { cache } from 'react'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { prisma } from '@/lib/db'
+import { liveWhere } from '@/lib/publishing'
+import { verifyPreviewToken } from '@/lib/auth'
+
+// Server-side reads of public content. Wrapped in React's cache so metadata
+// and the page rendering the same item share one query per request.
+
+export const getLiveThought = cache(async (slug: string) => {
+  return prisma.blogPost.findFirst({
+    where: { slug, ...liveWhere() },
+  })
+})
+
+// A file at public/projects/<slug>.md replaces the stored content of that
+// project wherever it is shown: the page, its preview and /api/projects/<slug>.
+// Only looked up for a slug that matched a project, so the path is safe.
+export async function withContentOverride<T extends { slug: string; content: string }>(project: T): Promise<T> {
+  const markdownPath = path.join(process.cwd(), 'public', 'projects', `${project.slug}.md`)
+
+  try {
+    return { ...project, content: await fs.readFile(markdownPath, 'utf8') }
+  } catch (error) {
+    // No file is the usual case; anything else falls back to the database
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading markdown file:', error)
+    }
+    return project
+  }
+}
+
+export const getLiveProject = cache(async (slug: string) => {
+  const project = await prisma.project.findFirst({
+    where: { slug, ...liveWhere() },
+  })
+  return project && withContentOverride(project)
+})
+
+// An item opened through a draft preview link, live or not. Null unless the
+// token is valid and was issued for this very item.
+export async function getPreviewThought(slug: string, token: string | undefined) {
+  const preview = await verifyPreviewToken(token)
+  if (preview?.entityType !== 'BlogPost') return null
+
+  const post = await prisma.blogPost.findUnique({ where: { slug } })
+  if (!post || post.id !== preview.entityId) return null
+
+  return { post, expiresAt: preview.expiresAt }
+}
+
+export async function getPreviewProject(slug: string, token: string | undefined) {
+  const preview = await verifyPreviewToken(token)
+  if (preview?.entityType !== 'Project') return null
+
+  const project = await prisma.project.findUnique({ where: { slug } })
+  if (!project || project.id !== preview.entityId) return null
+
+  return { project: await withContentOverride(project), expiresAt: preview.expiresAt }
+}
+
+export async function listLatestThoughts(take: number) {
+  return prisma.blogPost.findMany({
+    where: liveWhere(),
+    orderBy: { createdAt: 'desc' },
+    take,
+  })
+}
+
+// Featured projects first, then the newest
+export async function listSelectedProjects(take: number) {
+  return prisma.project.findMany({
+    where: liveWhere(),
+    orderBy: [{ featured: 'desc' }, { createdAt: 'desc' }],
+    take,
+  })
+}
+
+// Everything the sitemap lists, and the pages built ahead of time
+export async function listLiveThoughts() {
+  return prisma.blogPost.findMany({
+    where: liveWhere(),
+    select: { slug: true, updatedAt: true },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+export async function listLiveProjects() {
+  return prisma.project.findMany({
+    where: liveWhere(),
+    select: { slug: true, updatedAt: true },
+    orderBy: { createdAt: 'desc' },
+  })
+}
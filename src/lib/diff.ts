@@ -0,0 +1,102 @@
+// Line-based diff for comparing revisions. Pure functions, so it runs in the
+// browser as well as on the server.
+
+export type DiffRow =
+  | { type: 'equal'; left: string; right: string; leftNumber: number; rightNumber: number }
+  | { type: 'changed'; left: string | null; right: string | null; leftNumber: number | null; rightNumber: number | null }
+
+type Op = { type: 'equal' | 'removed' | 'added'; line: string }
+
+// Longest common subsequence over lines. Revisions are blog-post sized, so the
+// quadratic table is fine; the common prefix and suffix are trimmed first to
+// keep it small for typical edits.
+function diffLines(before: string[], after: string[]): Op[] {
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++
+  }
+
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+
+  const a = before.slice(start, endBefore)
+  const b = after.slice(start, endAfter)
+  const width = b.length + 1
+  const lengths = new Int32Array((a.length + 1) * width)
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const ops: Op[] = before.slice(0, start).map(line => ({ type: 'equal', line }))
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i] })
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: 'removed', line: a[i++] })
+    } else {
+      ops.push({ type: 'added', line: b[j++] })
+    }
+  }
+  while (i < a.length) ops.push({ type: 'removed', line: a[i++] })
+  while (j < b.length) ops.push({ type: 'added', line: b[j++] })
+
+  for (const line of before.slice(endBefore)) {
+    ops.push({ type: 'equal', line })
+  }
+
+  return ops
+}
+
+// Pairs removed and added lines up so they can be shown side by side
+export function sideBySideDiff(before: string, after: string): DiffRow[] {
+  const ops = diffLines(before.split('\n'), after.split('\n'))
+  const rows: DiffRow[] = []
+  let leftNumber = 1
+  let rightNumber = 1
+  let index = 0
+
+  while (index < ops.length) {
+    if (ops[index].type === 'equal') {
+      rows.push({ type: 'equal', left: ops[index].line, right: ops[index].line, leftNumber: leftNumber++, rightNumber: rightNumber++ })
+      index++
+      continue
+    }
+
+    const removed: string[] = []
+    const added: string[] = []
+    while (index < ops.length && ops[index].type !== 'equal') {
+      if (ops[index].type === 'removed') {
+        removed.push(ops[index].line)
+      } else {
+        added.push(ops[index].line)
+      }
+      index++
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({
+        type: 'changed',
+        left: k < removed.length ? removed[k] : null,
+        right: k < added.length ? added[k] : null,
+        leftNumber: k < removed.length ? leftNumber++ : null,
+        rightNumber: k < added.length ? rightNumber++ : null,
+      })
+    }
+  }
+
+  return rows
+}
@@ -0,0 +1,228 @@
+import { prisma } from '@/lib/db'
+import { escapeHtml } from '@/lib/html'
+import { renderMarkdown } from '@/lib/markdown'
+import { liveWhere, publishedDate } from '@/lib/publishing'
+import { SITE_AUTHOR, SITE_NAME, absoluteUrl, siteUrl } from '@/lib/site'
+import { liveWikiLinks } from '@/lib/wiki-links'
+
+// RSS 2.0, Atom 1.0 and JSON Feed 1.1 for published thoughts, site-wide or
+// for a single tag. All three are built from the same Feed description.
+
+export const FEED_FORMATS = {
+  rss: { file: 'feed.xml', contentType: 'application/rss+xml; charset=utf-8' },
+  atom: { file: 'atom.xml', contentType: 'application/atom+xml; charset=utf-8' },
+  json: { file: 'feed.json', contentType: 'application/feed+json; charset=utf-8' },
+} as const
+
+export type FeedFormat = keyof typeof FEED_FORMATS
+
+const FEED_SIZE = 50
+
+// Feed readers poll; let a CDN answer most of them
+const CACHE_CONTROL = 'public, max-age=0, s-maxage=600, stale-while-revalidate=3600'
+
+type FeedItem = {
+  id: string
+  url: string
+  title: string
+  summary: string | null
+  html: string
+  tags: string[]
+  published: Date
+  updated: Date
+}
+
+type Feed = {
+  title: string
+  description: string
+  // The HTML page the feed mirrors
+  homeUrl: string
+  tag?: string
+  items: FeedItem[]
+}
+
+// The index pages the feeds point back to
+function feedHome(tag?: string) {
+  return tag ? `/thoughts?tag=${encodeURIComponent(tag)}` : '/thoughts'
+}
+
+function feedBasePath(tag?: string) {
+  return tag ? `/thoughts/tag/${encodeURIComponent(tag)}` : ''
+}
+
+function feedPath(format: FeedFormat, tag?: string) {
+  return `${feedBasePath(tag)}/${FEED_FORMATS[format].file}`
+}
+
+// Feed readers show content away from the site, so every link and image
+// needs the full URL. Resolved against the item's own page, which is where
+// "#heading" and relative paths point. Only attributes inside tags are
+// touched: text is escaped, so it has no "<".
+function absoluteHtml(html: string, pageUrl: string) {
+  return html.replace(/<[a-z][^>]*>/gi, tag =>
+    tag.replace(/(\s(?:href|src))="([^"]*)"/gi, (attribute, name: string, value: string) => {
+      try {
+        return `${name}="${new URL(value, pageUrl).href}"`
+      } catch {
+        return attribute
+      }
+    })
+  )
+}
+
+async function loadFeed(tag?: string): Promise<Feed> {
+  const where = {
+    ...liveWhere(),
+    // Tags are usually stored upper-case, but match what the reader typed too
+    ...(tag ? { tags: { hasSome: [tag, tag.toUpperCase(), tag.toLowerCase()] } } : {}),
+  }
+
+  // Prisma can't order by publishAt-or-createdAt, so the newest are picked
+  // from the dates alone before loading their content
+  const dates = await prisma.blogPost.findMany({
+    where,
+    select: { id: true, publishAt: true, createdAt: true },
+  })
+  const ids = dates
+    .sort((a, b) => publishedDate(b).getTime() - publishedDate(a).getTime())
+    .slice(0, FEED_SIZE)
+    .map(post => post.id)
+
+  const posts = (await prisma.blogPost.findMany({ where: { id: { in: ids } } }))
+    .sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+
+  const resolveWikiLink = await liveWikiLinks()
+
+  return {
+    title: tag ? `${SITE_NAME}: thoughts tagged ${tag}` : `${SITE_NAME}: thoughts`,
+    description: tag
+      ? `Thoughts tagged ${tag} by ${SITE_AUTHOR}.`
+      : `Ideas, insights and explorations across technology, entrepreneurship and research by ${SITE_AUTHOR}.`,
+    homeUrl: absoluteUrl(feedHome(tag)),
+    tag,
+    items: posts.map(post => {
+      const url = absoluteUrl(`/thoughts/${post.slug}`)
+      return {
+        id: url,
+        url,
+        title: post.title,
+        summary: post.excerpt,
+        html: absoluteHtml(renderMarkdown(post.content, { resolveWikiLink }).html, url),
+        tags: post.tags,
+        published: publishedDate(post),
+        updated: post.updatedAt,
+      }
+    }),
+  }
+}
+
+// "]]>" would end the section early, so it is split across two sections
+function cdata(value: string) {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
+
+function renderRss(feed: Feed) {
+  const selfUrl = absoluteUrl(feedPath('rss', feed.tag))
+  const items = feed.items.map(item => `    <item>
+      <title>${escapeHtml(item.title)}</title>
+      <link>${escapeHtml(item.url)}</link>
+      <guid isPermaLink="true">${escapeHtml(item.id)}</guid>
+      <pubDate>${item.published.toUTCString()}</pubDate>
+${item.tags.map(tag => `      <category>${escapeHtml(tag)}</category>\n`).join('')}${
+  item.summary ? `      <description>${escapeHtml(item.summary)}</description>\n` : ''
+}      <content:encoded>${cdata(item.html)}</content:encoded>
+    </item>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeHtml(feed.title)}</title>
+    <link>${escapeHtml(feed.homeUrl)}</link>
+    <description>${escapeHtml(feed.description)}</description>
+    <language>en</language>
+    <atom:link href="${escapeHtml(selfUrl)}" rel="self" type="application/rss+xml"/>
+${feed.items[0] ? `    <lastBuildDate>${feed.items[0].published.toUTCString()}</lastBuildDate>\n` : ''}${items.join('\n')}
+  </channel>
+</rss>
+`
+}
+
+function renderAtom(feed: Feed) {
+  const selfUrl = absoluteUrl(feedPath('atom', feed.tag))
+  const updated = feed.items.reduce(
+    (latest, item) => (item.updated > latest ? item.updated : latest),
+    new Date(0)
+  )
+  const entries = feed.items.map(item => `  <entry>
+    <title>${escapeHtml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeHtml(item.url)}"/>
+    <id>${escapeHtml(item.id)}</id>
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.updated.toISOString()}</updated>
+${item.tags.map(tag => `    <category term="${escapeHtml(tag)}"/>\n`).join('')}${
+  item.summary ? `    <summary>${escapeHtml(item.summary)}</summary>\n` : ''
+}    <content type="html">${escapeHtml(item.html)}</content>
+  </entry>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeHtml(feed.title)}</title>
+  <subtitle>${escapeHtml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeHtml(feed.homeUrl)}"/>
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(selfUrl)}"/>
+  <id>${escapeHtml(selfUrl)}</id>
+  <updated>${updated.toISOString()}</updated>
+  <author><name>${escapeHtml(SITE_AUTHOR)}</name><uri>${escapeHtml(siteUrl())}</uri></author>
+${entries.join('\n')}
+</feed>
+`
+}
+
+function renderJsonFeed(feed: Feed) {
+  return JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      description: feed.description,
+      home_page_url: feed.homeUrl,
+      feed_url: absoluteUrl(feedPath('json', feed.tag)),
+      language: 'en',
+      authors: [{ name: SITE_AUTHOR, url: siteUrl() }],
+      items: feed.items.map(item => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        summary: item.summary ?? undefined,
+        content_html: item.html,
+        tags: item.tags,
+        date_published: item.published.toISOString(),
+        date_modified: item.updated.toISOString(),
+      })),
+    },
+    null,
+    2
+  )
+}
+
+const RENDERERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+}
+
+// Shared by the feed route handlers
+export async function feedResponse(format: FeedFormat, tag?: string) {
+  try {
+    const feed = await loadFeed(tag)
+
+    return new Response(RENDERERS[format](feed), {
+      headers: {
+        'Content-Type': FEED_FORMATS[format].contentType,
+        'Cache-Control': CACHE_CONTROL,
+      },
+    })
+  } catch (error) {
+    console.error('Error generating feed:', error)
+    return new Response('Error generating feed', { status: 500 })
+  }
+}
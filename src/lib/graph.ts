@@ -0,0 +1,122 @@
+import { prisma } from '@/lib/db'
+import { liveWhere } from '@/lib/publishing'
+import { summarize } from '@/lib/seo'
+import type { GraphEdge, GraphEdgeKind, GraphNode, KnowledgeGraph } from '@/types/graph'
+
+// The live thoughts and projects, the tags joining them and the links between
+// them, for /graph. A project's technologies count as its tags, so a thought
+// tagged AI and a project built with AI meet at the same node.
+//
+// Built by /api/graph, which is cached; admin saves revalidate it.
+
+// Links to /thoughts/<slug> or /projects/<slug> in content, relative or
+// absolute. Only slugs that exist become edges, so /thoughts/tag/... is
+// ignored.
+const REFERENCE = /\/(thoughts|projects)\/([a-z0-9-]+)/gi
+
+// Hover previews are a line or two
+const SUMMARY_LENGTH = 140
+
+function tagId(tag: string) {
+  return `tag:${tag.toUpperCase()}`
+}
+
+export async function buildKnowledgeGraph(): Promise<KnowledgeGraph> {
+  const [thoughts, projects, links] = await Promise.all([
+    prisma.blogPost.findMany({
+      where: liveWhere(),
+      select: { slug: true, title: true, excerpt: true, content: true, tags: true },
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.project.findMany({
+      where: liveWhere(),
+      select: { slug: true, title: true, description: true, content: true, technologies: true },
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.thoughtLink.findMany({
+      where: { source: liveWhere(), targetPost: liveWhere() },
+      select: { source: { select: { slug: true } }, targetPost: { select: { slug: true } } },
+    }),
+  ])
+
+  const nodes: GraphNode[] = []
+  const edges = new Map<string, GraphEdge>()
+  const tagCounts = new Map<string, number>()
+
+  // One edge per pair of nodes, whichever direction; a wiki link wins over a
+  // plain reference between the same two
+  const addEdge = (source: string, target: string, kind: GraphEdgeKind) => {
+    if (source === target) return
+    const key = [source, target].sort().join(' ')
+    if (kind !== 'link' && edges.has(key)) return
+    edges.set(key, { source, target, kind })
+  }
+
+  const addItem = (node: Omit<GraphNode, 'tags'>, tags: string[]) => {
+    const upperTags = Array.from(new Set(tags.map(tag => tag.toUpperCase())))
+    nodes.push({ ...node, tags: upperTags })
+
+    for (const tag of upperTags) {
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1)
+      addEdge(node.id, tagId(tag), 'tag')
+    }
+  }
+
+  for (const post of thoughts) {
+    addItem({
+      id: `thought:${post.slug}`,
+      type: 'thought',
+      label: post.title,
+      url: `/thoughts/${post.slug}`,
+      summary: post.excerpt || summarize(post.content, SUMMARY_LENGTH),
+    }, post.tags)
+  }
+
+  for (const project of projects) {
+    addItem({
+      id: `project:${project.slug}`,
+      type: 'project',
+      label: project.title,
+      url: `/projects/${project.slug}`,
+      summary: summarize(project.description, SUMMARY_LENGTH),
+    }, project.technologies)
+  }
+
+  tagCounts.forEach((count, tag) => {
+    nodes.push({
+      id: tagId(tag),
+      type: 'tag',
+      label: tag,
+      url: null,
+      summary: `${count} item${count === 1 ? '' : 's'}`,
+      tags: [],
+    })
+  })
+
+  for (const { source, targetPost } of links) {
+    if (targetPost) {
+      addEdge(`thought:${source.slug}`, `thought:${targetPost.slug}`, 'link')
+    }
+  }
+
+  const nodeIds = new Set(nodes.map(node => node.id))
+  const items = [
+    ...thoughts.map(post => ({ id: `thought:${post.slug}`, content: post.content })),
+    ...projects.map(project => ({ id: `project:${project.slug}`, content: project.content })),
+  ]
+
+  for (const item of items) {
+    for (const [, section, slug] of Array.from(item.content.matchAll(REFERENCE))) {
+      const target = `${section.toLowerCase() === 'projects' ? 'project' : 'thought'}:${slug.toLowerCase()}`
+      if (nodeIds.has(target)) {
+        addEdge(item.id, target, 'reference')
+      }
+    }
+  }
+
+  return {
+    nodes,
+    edges: Array.from(edges.values()),
+    generatedAt: new Date().toISOString(),
+  }
+}
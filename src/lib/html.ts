@@ -0,0 +1,10 @@
+// Escapes text for HTML and XML, in element content and in quoted attribute
+// values. Used by the markdown renderer, the email templates and the feeds.
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
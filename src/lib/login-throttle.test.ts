@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { LoginThrottle } from '@/lib/login-throttle'
+import { MemoryRateLimitStore, RateLimiter } from '@/lib/rate-limit'
+
+const MINUTE = 60 * 1000
+
+// A clock that only moves when told to
+function fakeClock(start = Date.UTC(2026, 0, 1)) {
+  let time = start
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms
+    },
+  }
+}
+
+function createThrottle(options: ConstructorParameters<typeof LoginThrottle>[0] = {}) {
+  const clock = fakeClock()
+  const throttle = new LoginThrottle({ store: new MemoryRateLimitStore(), now: clock.now, ...options })
+  return { clock, throttle }
+}
+
+describe('RateLimiter', () => {
+  it('allows hits up to the limit and starts a new window when it ends', async () => {
+    const clock = fakeClock()
+    const limiter = new RateLimiter({ limit: 2, windowMs: MINUTE, store: new MemoryRateLimitStore(), now: clock.now })
+
+    assert.equal((await limiter.consume('key')).allowed, true)
+    assert.equal((await limiter.consume('key')).allowed, true)
+
+    const blocked = await limiter.consume('key')
+    assert.equal(blocked.allowed, false)
+    assert.equal(blocked.remaining, 0)
+    assert.equal(blocked.retryAfter, 60)
+
+    clock.advance(MINUTE)
+    assert.deepEqual(await limiter.consume('key'), { allowed: true, remaining: 1, retryAfter: 60 })
+  })
+
+  it('peeks without counting a hit', async () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: MINUTE, store: new MemoryRateLimitStore() })
+
+    await limiter.peek('key')
+    await limiter.peek('key')
+    assert.equal((await limiter.consume('key')).allowed, true)
+  })
+})
+
+describe('LoginThrottle', () => {
+  it('locks an account after too many failures, until the lockout ends', async () => {
+    const { clock, throttle } = createThrottle({ maxFailures: 3, lockoutMs: 10 * MINUTE })
+
+    assert.deepEqual(await throttle.recordFailure('alice'), { lockedFor: null })
+    assert.deepEqual(await throttle.recordFailure('alice'), { lockedFor: null })
+    assert.deepEqual(await throttle.recordFailure('alice'), { lockedFor: 600 })
+
+    assert.equal(await throttle.isLocked('alice'), true)
+    assert.deepEqual(await throttle.check('1.2.3.4', 'alice'), { allowed: false, reason: 'locked', retryAfter: 600 })
+
+    // Other accounts are unaffected
+    assert.deepEqual(await throttle.check('1.2.3.4', 'bob'), { allowed: true })
+
+    clock.advance(10 * MINUTE)
+    assert.equal(await throttle.isLocked('alice'), false)
+    assert.deepEqual(await throttle.check('1.2.3.4', 'alice'), { allowed: true })
+  })
+
+  it('only counts failures inside the failure window', async () => {
+    const { clock, throttle } = createThrottle({ maxFailures: 2, failureWindowMs: 5 * MINUTE })
+
+    await throttle.recordFailure('alice')
+    clock.advance(5 * MINUTE)
+    assert.deepEqual(await throttle.recordFailure('alice'), { lockedFor: null })
+    assert.equal(await throttle.isLocked('alice'), false)
+  })
+
+  it('limits attempts per IP address for the length of the window', async () => {
+    const { clock, throttle } = createThrottle({ maxAttemptsPerIp: 2, ipWindowMs: 15 * MINUTE })
+
+    assert.deepEqual(await throttle.check('1.2.3.4', 'alice'), { allowed: true })
+    assert.deepEqual(await throttle.check('1.2.3.4', 'bob'), { allowed: true })
+    assert.deepEqual(await throttle.check('1.2.3.4', 'carol'), { allowed: false, reason: 'ip', retryAfter: 900 })
+
+    // Another address has its own budget
+    assert.deepEqual(await throttle.check('5.6.7.8', 'alice'), { allowed: true })
+
+    clock.advance(15 * MINUTE)
+    assert.deepEqual(await throttle.check('1.2.3.4', 'alice'), { allowed: true })
+  })
+
+  it('forgets earlier failures after a successful login', async () => {
+    const { throttle } = createThrottle({ maxFailures: 3 })
+
+    await throttle.recordFailure('alice')
+    await throttle.recordFailure('alice')
+    await throttle.recordSuccess('alice')
+
+    assert.deepEqual(await throttle.recordFailure('alice'), { lockedFor: null })
+    assert.deepEqual(await throttle.recordFailure('alice'), { lockedFor: null })
+    assert.equal(await throttle.isLocked('alice'), false)
+  })
+
+  it('lets an owner unlock an account before the lockout ends', async () => {
+    const { throttle } = createThrottle({ maxFailures: 1 })
+
+    await throttle.recordFailure('alice')
+    assert.equal(await throttle.isLocked('alice'), true)
+
+    await throttle.unlock('alice')
+    assert.equal(await throttle.isLocked('alice'), false)
+    assert.deepEqual(await throttle.check('1.2.3.4', 'alice'), { allowed: true })
+  })
+
+  it('shares limits between throttles using the same store', async () => {
+    const clock = fakeClock()
+    const store = new MemoryRateLimitStore()
+    const first = new LoginThrottle({ store, now: clock.now, maxFailures: 1 })
+    const second = new LoginThrottle({ store, now: clock.now, maxFailures: 1 })
+
+    await first.recordFailure('alice')
+    assert.equal(await second.isLocked('alice'), true)
+  })
+})
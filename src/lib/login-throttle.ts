@@ -0,0 +1,105 @@
+import { MemoryRateLimitStore, RateLimiter, RateLimitStore } from '@/lib/rate-limit'
+
+const MINUTE = 60 * 1000
+
+export interface LoginThrottleOptions {
+  store?: RateLimitStore
+  now?: () => number
+  // Attempts (successful or not) allowed per IP address per window
+  maxAttemptsPerIp?: number
+  ipWindowMs?: number
+  // Failed attempts for one username before the account is locked
+  maxFailures?: number
+  failureWindowMs?: number
+  lockoutMs?: number
+}
+
+export type LoginCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'ip' | 'locked'; retryAfter: number }
+
+// Throttles login attempts by IP address and locks individual accounts after
+// repeated failures. All state lives in the given store, so every instance
+// sharing a store enforces the same limits.
+export class LoginThrottle {
+  private readonly ipLimiter: RateLimiter
+  private readonly failureLimiter: RateLimiter
+  private readonly lockoutLimiter: RateLimiter
+
+  constructor(options: LoginThrottleOptions = {}) {
+    const store = options.store ?? new MemoryRateLimitStore()
+    const now = options.now ?? Date.now
+
+    this.ipLimiter = new RateLimiter({
+      store,
+      now,
+      limit: options.maxAttemptsPerIp ?? 20,
+      windowMs: options.ipWindowMs ?? 15 * MINUTE,
+    })
+    this.failureLimiter = new RateLimiter({
+      store,
+      now,
+      limit: options.maxFailures ?? 5,
+      windowMs: options.failureWindowMs ?? 15 * MINUTE,
+    })
+    // A lock is simply a live entry under the lockout key
+    this.lockoutLimiter = new RateLimiter({
+      store,
+      now,
+      limit: 0,
+      windowMs: options.lockoutMs ?? 15 * MINUTE,
+    })
+  }
+
+  // Counts the attempt against the IP and reports whether it may proceed
+  async check(ip: string, username: string): Promise<LoginCheck> {
+    const ipResult = await this.ipLimiter.consume(`login:ip:${ip}`)
+    if (!ipResult.allowed) {
+      return { allowed: false, reason: 'ip', retryAfter: ipResult.retryAfter }
+    }
+
+    const lock = await this.lockoutLimiter.peek(`login:lock:${username}`)
+    if (lock.retryAfter > 0) {
+      return { allowed: false, reason: 'locked', retryAfter: lock.retryAfter }
+    }
+
+    return { allowed: true }
+  }
+
+  // Returns the lock duration in seconds if this failure locked the account
+  async recordFailure(username: string): Promise<{ lockedFor: number | null }> {
+    const failures = await this.failureLimiter.consume(`login:failures:${username}`)
+
+    if (failures.remaining > 0) {
+      return { lockedFor: null }
+    }
+
+    await this.failureLimiter.reset(`login:failures:${username}`)
+    const lock = await this.lockoutLimiter.consume(`login:lock:${username}`)
+
+    return { lockedFor: lock.retryAfter }
+  }
+
+  async recordSuccess(username: string) {
+    await this.failureLimiter.reset(`login:failures:${username}`)
+  }
+
+  async isLocked(username: string) {
+    const lock = await this.lockoutLimiter.peek(`login:lock:${username}`)
+    return lock.retryAfter > 0
+  }
+
+  // Lets an owner unlock an account before the cooldown ends
+  async unlock(username: string) {
+    await this.failureLimiter.reset(`login:failures:${username}`)
+    await this.lockoutLimiter.reset(`login:lock:${username}`)
+  }
+}
+
+const globalForThrottle = globalThis as unknown as {
+  loginThrottle: LoginThrottle | undefined
+}
+
+export const loginThrottle = globalForThrottle.loginThrottle ?? new LoginThrottle()
+
+if (process.env.NODE_ENV !== 'production') globalForThrottle.loginThrottle = loginThrottle
@@ -0,0 +1,150 @@
+import { escapeHtml } from '@/lib/html'
+import { SITE_NAME, absoluteUrl } from '@/lib/site'
+
+// Outgoing emails (owner notifications and newsletter mail), each with a
+// plain-text and an HTML version. The HTML sticks to inline styles and a
+// simple table, which every mail client renders.
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+// Rows of label/value pairs, shared by both versions
+type Detail = [label: string, value: string]
+
+function render({
+  subject,
+  heading,
+  intro,
+  details = [],
+  body,
+  action,
+  unsubscribeUrl,
+}: {
+  subject: string
+  heading: string
+  intro: string
+  details?: Detail[]
+  // Free text from a user, shown as-is
+  body?: string
+  action?: { label: string; url: string }
+  // Newsletter mail only; notifications go to the site owner
+  unsubscribeUrl?: string
+}): RenderedEmail {
+  const text = [
+    intro,
+    '',
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    ...(body ? ['', body] : []),
+    ...(action ? ['', `${action.label}: ${action.url}`] : []),
+    '',
+    `— ${SITE_NAME}`,
+    ...(unsubscribeUrl ? ['', `Unsubscribe: ${unsubscribeUrl}`] : []),
+  ].join('\n')
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5fce5;font-family:Helvetica,Arial,sans-serif;color:#000">
+    <div style="max-width:600px;margin:0 auto;background:#fff;border:4px solid #000;box-shadow:8px 8px 0 0 #000;padding:24px">
+      <h1 style="margin:0 0 16px;font-size:22px;letter-spacing:0.05em;text-transform:uppercase">${escapeHtml(heading)}</h1>
+      <p style="margin:0 0 16px">${escapeHtml(intro)}</p>
+${details.length > 0 ? `      <table style="border-collapse:collapse;margin:0 0 16px">
+${details.map(([label, value]) => `        <tr><td style="padding:4px 16px 4px 0;font-weight:bold">${escapeHtml(label)}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`).join('\n')}
+      </table>
+` : ''}${body ? `      <div style="border-top:2px solid #000;padding-top:16px;margin:0 0 16px;white-space:pre-wrap">${escapeHtml(body)}</div>
+` : ''}${action ? `      <a href="${escapeHtml(action.url)}" style="display:inline-block;padding:8px 16px;border:2px solid #000;background:#cff27e;color:#000;font-weight:bold;text-decoration:none">${escapeHtml(action.label)}</a>
+` : ''}    </div>
+    <p style="max-width:600px;margin:16px auto 0;font-size:12px;color:#523a34">${escapeHtml(SITE_NAME)}${unsubscribeUrl ? ` · <a href="${escapeHtml(unsubscribeUrl)}" style="color:#523a34">Unsubscribe</a>` : ''}</p>
+  </body>
+</html>
+`
+
+  return { subject, text, html }
+}
+
+export function contactMessageEmail(message: {
+  name: string
+  email: string
+  message: string
+  createdAt: Date
+}): RenderedEmail {
+  return render({
+    subject: `New message from ${message.name}`,
+    heading: 'New contact message',
+    intro: `${message.name} sent a message through the contact form. Reply to this email to answer them.`,
+    details: [
+      ['From', `${message.name} <${message.email}>`],
+      ['Received', message.createdAt.toUTCString()],
+    ],
+    body: message.message,
+    action: { label: 'Open the inbox', url: absoluteUrl('/admin/inbox') },
+  })
+}
+
+export function accountLockedEmail({
+  username,
+  ip,
+  lockedFor,
+}: {
+  username: string
+  ip: string
+  // Seconds
+  lockedFor: number
+}): RenderedEmail {
+  const minutes = Math.ceil(lockedFor / 60)
+
+  return render({
+    subject: `Admin account "${username}" locked after failed logins`,
+    heading: 'Account locked',
+    intro: `Too many failed sign-in attempts locked the admin account "${username}" for ${minutes} minute${minutes === 1 ? '' : 's'}. If this wasn't you, someone may be guessing the password.`,
+    details: [
+      ['Account', username],
+      ['Last attempt from', ip],
+      ['Locked until', new Date(Date.now() + lockedFor * 1000).toUTCString()],
+    ],
+    action: { label: 'Review users', url: absoluteUrl('/admin/users') },
+  })
+}
+
+export function testEmail({ transport, sentBy }: { transport: string; sentBy: string }): RenderedEmail {
+  return render({
+    subject: `Test message from ${SITE_NAME}`,
+    heading: 'Mail is working',
+    intro: `This test message was sent by ${sentBy} from the admin mail page.`,
+    details: [
+      ['Transport', transport],
+      ['Sent', new Date().toUTCString()],
+    ],
+  })
+}
+
+export function subscriptionConfirmEmail({ confirmUrl }: { confirmUrl: string }): RenderedEmail {
+  return render({
+    subject: `Confirm your subscription to ${SITE_NAME}`,
+    heading: 'One more step',
+    intro: `Someone, hopefully you, asked to get an email whenever ${SITE_NAME} publishes a new thought. Open the link below to confirm. If it wasn't you, ignore this email and nothing will be sent.`,
+    action: { label: 'Confirm subscription', url: confirmUrl },
+  })
+}
+
+export function newThoughtEmail({
+  title,
+  summary,
+  url,
+  unsubscribeUrl,
+}: {
+  title: string
+  summary: string
+  url: string
+  unsubscribeUrl: string
+}): RenderedEmail {
+  return render({
+    subject: title,
+    heading: title,
+    intro: summary,
+    action: { label: 'Read it', url },
+    unsubscribeUrl,
+  })
+}
@@ -0,0 +1,154 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import { SITE_NAME } from '@/lib/site'
+
+// Outbound email. The transport is picked from the environment:
+//   MAIL_TRANSPORT  smtp, file or console. Defaults to smtp when SMTP_HOST is
+//                   set and to console otherwise.
+//   SMTP_HOST, SMTP_PORT (587), SMTP_USER, SMTP_PASSWORD, SMTP_SECURE
+//                   (true for implicit TLS, usually on port 465)
+//   MAIL_FILE_DIR   where the file transport writes .eml files (.mail)
+//   MAIL_FROM       the sender address
+// Implement MailTransport to deliver some other way, e.g. through an HTTP API.
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+  replyTo?: string
+  // Extra headers, e.g. List-Unsubscribe on newsletter mail
+  headers?: Record<string, string>
+}
+
+export interface MailTransport {
+  // Shown on the admin mail page
+  readonly name: string
+  // Non-secret settings, also for the admin mail page
+  describe(): Record<string, string>
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+export type MailTransportName = 'smtp' | 'file' | 'console'
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp'
+  private readonly transporter: nodemailer.Transporter
+
+  constructor(private readonly options: {
+    host: string
+    port: number
+    secure: boolean
+    user?: string
+    password?: string
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    })
+  }
+
+  describe() {
+    return {
+      Host: this.options.host,
+      Port: String(this.options.port),
+      TLS: this.options.secure ? 'implicit' : 'STARTTLS if offered',
+      User: this.options.user ?? '(none)',
+    }
+  }
+
+  async send(message: MailMessage & { from: string }) {
+    await this.transporter.sendMail(message)
+  }
+}
+
+// Writes each message to its own .eml file, which any mail client can open
+export class FileTransport implements MailTransport {
+  readonly name = 'file'
+  private readonly streamTransporter = nodemailer.createTransport({ streamTransport: true, buffer: true })
+
+  constructor(private readonly directory: string) {}
+
+  describe() {
+    return { Directory: path.resolve(this.directory) }
+  }
+
+  async send(message: MailMessage & { from: string }) {
+    const { message: raw } = await this.streamTransporter.sendMail(message)
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40)
+
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(path.join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}.eml`), raw as Buffer)
+  }
+}
+
+// Prints messages to the server log. The default when nothing is configured,
+// so development never sends real mail by accident.
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console'
+
+  describe() {
+    return { Output: 'server log' }
+  }
+
+  async send(message: MailMessage & { from: string }) {
+    console.log(
+      `[mail] From: ${message.from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+    )
+  }
+}
+
+export function configuredTransportName(): MailTransportName {
+  const name = process.env.MAIL_TRANSPORT?.toLowerCase()
+
+  if (name === 'smtp' || name === 'file' || name === 'console') {
+    return name
+  }
+
+  return process.env.SMTP_HOST ? 'smtp' : 'console'
+}
+
+function createTransport(): MailTransport {
+  switch (configuredTransportName()) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('MAIL_TRANSPORT is smtp but SMTP_HOST is not set')
+      }
+
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+      })
+    }
+    case 'file':
+      return new FileTransport(process.env.MAIL_FILE_DIR || '.mail')
+    case 'console':
+      return new ConsoleTransport()
+  }
+}
+
+const globalForMail = globalThis as unknown as {
+  mailTransport: MailTransport | undefined
+}
+
+export function getMailTransport() {
+  if (!globalForMail.mailTransport) {
+    globalForMail.mailTransport = createTransport()
+  }
+
+  return globalForMail.mailTransport
+}
+
+export function mailFrom() {
+  return process.env.MAIL_FROM || `${SITE_NAME} <no-reply@localhost>`
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send({ ...message, from: mailFrom() })
+}
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { renderMarkdown } from '@/lib/markdown'
+
+function html(markdown: string) {
+  return renderMarkdown(markdown).html
+}
+
+describe('renderMarkdown sanitizing', () => {
+  it('removes script tags and their content', () => {
+    const output = html('<script>alert(1)</script>\n\nText')
+
+    assert.doesNotMatch(output, /<script|alert/)
+    assert.match(output, /<p>Text<\/p>/)
+  })
+
+  it('removes event handler attributes', () => {
+    for (const markdown of [
+      '<img src="cat.png" onerror="alert(1)">',
+      '<div onclick="alert(1)">Click</div>',
+      '<svg onload="alert(1)"></svg>',
+      '<a href="/about" onmouseover="alert(1)">About</a>',
+    ]) {
+      assert.doesNotMatch(html(markdown), /\son\w+=/i, markdown)
+    }
+  })
+
+  it('drops javascript: and data: link targets', () => {
+    for (const markdown of [
+      '[x](javascript:alert(1))',
+      '<a href="javascript:alert(1)">x</a>',
+      '<a href="JaVaScRiPt:alert(1)">x</a>',
+      '[x](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)',
+      '<a href="data:text/html,<script>alert(1)</script>">x</a>',
+    ]) {
+      const output = html(markdown)
+      assert.doesNotMatch(output, /javascript:|data:/i, markdown)
+      assert.doesNotMatch(output, /href=/, markdown)
+    }
+  })
+
+  it('removes tags that are not on the allowlist', () => {
+    assert.doesNotMatch(html('<iframe src="https://example.com"></iframe>'), /<iframe/)
+    assert.doesNotMatch(html('<form action="/x"><input name="a"></form>'), /<form|<input name/)
+  })
+
+  it('keeps ordinary links, opening external ones in a new tab', () => {
+    const output = html('[site](https://example.com) and [thought](/thoughts/a)')
+
+    assert.match(output, /<a href="https:\/\/example.com" target="_blank" rel="noopener noreferrer">site<\/a>/)
+    assert.match(output, /<a href="\/thoughts\/a">thought<\/a>/)
+  })
+
+  it('does not restore trusted output from a placeholder written by the author', () => {
+    const output = html('@@trusted-00000000-0000-0000-0000-000000000000-0@@')
+    assert.match(output, /@@trusted-/)
+  })
+})
+
+describe('renderMarkdown plugins', () => {
+  it('keeps KaTeX output, inline styles included', () => {
+    const output = html('$$\nx^2\n$$\n\nInline $a+b$ too')
+
+    assert.match(output, /<div class="math-display"><span class="katex-display">/)
+    assert.match(output, /<span class="katex">/)
+    assert.match(output, /style="[^"]+"/)
+    assert.match(output, /<annotation encoding="application\/x-tex">a\+b<\/annotation>/)
+  })
+
+  it('escapes markup inside math instead of rendering it', () => {
+    const output = html('$<img src=x onerror=alert(1)>$')
+    assert.doesNotMatch(output, /<img/)
+  })
+
+  it('keeps callouts with their classes and icon', () => {
+    const output = html('> [!WARNING]\n> Mind the gap')
+
+    assert.match(output, /<div class="markdown-alert markdown-alert-warning">/)
+    assert.match(output, /<p class="markdown-alert-title"><span class="markdown-alert-icon" aria-hidden="true">⚠<\/span>Warning<\/p>/)
+    assert.match(output, /<p>Mind the gap<\/p>/)
+  })
+
+  it('counts the words of trusted output by its text', () => {
+    const { readingTime } = renderMarkdown('One two $x$ three')
+    assert.equal(readingTime.words, 4)
+  })
+})
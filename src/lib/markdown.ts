@@ -0,0 +1,456 @@
+import { Marked, MarkedExtension, Tokens } from 'marked'
+import { markedHighlight } from 'marked-highlight'
+import markedFootnote from 'marked-footnote'
+import markedAlert from 'marked-alert'
+import hljs from 'highlight.js/lib/common'
+import katex from 'katex'
+import nomnoml from 'nomnoml'
+import sanitizeHtml from 'sanitize-html'
+import slugify from 'slugify'
+import { escapeHtml } from '@/lib/html'
+import { siteUrl } from '@/lib/site'
+import type { ReadingTime, TocHeading } from '@/types/blog'
+
+// The one place markdown becomes HTML. Pages, previews and feeds all render
+// through renderMarkdown, which parses with marked plus the plugins below and
+// then runs the result through an allowlist sanitizer, so a <script> or an
+// onclick in stored content never reaches a reader.
+//
+// To add a feature, write a MarkdownPlugin and append it to PLUGINS. Its
+// extension gets a fresh RenderContext per document; anything its HTML needs
+// (tags, attributes, classes) has to be listed in `allow`, or the sanitizer
+// strips it. Output a plugin generates itself from a library that escapes
+// the author's input, like KaTeX's, can skip the sanitizer with
+// context.trusted.
+
+// Per-document state shared by the plugins
+export interface RenderContext {
+  // A slug for the text that is unique within the document, for heading ids
+  slug(text: string): string
+  // Filled in by the heading plugin, in document order
+  headings: TocHeading[]
+  // Returns a placeholder that is swapped for the html after sanitizing.
+  // `text` stands in for it in headings and the word count.
+  trusted(html: string, text: string): string
+  // The text of rendered html, with trusted output replaced by its text
+  plainText(html: string): string
+  resolveWikiLink?: WikiLinkResolver
+}
+
+// Where a [[wiki link]] goes and the text it shows when it has no label of
+// its own, or null when nothing matches
+export type WikiLinkResolver = (target: string) => { href: string; text: string } | null
+
+export interface RenderOptions {
+  // Without one, [[wiki links]] show as their text, unlinked
+  resolveWikiLink?: WikiLinkResolver
+}
+
+export interface RenderedMarkdown {
+  html: string
+  headings: TocHeading[]
+  readingTime: ReadingTime
+}
+
+export interface MarkdownPlugin {
+  name: string
+  extension?: (context: RenderContext) => MarkedExtension
+  allow?: {
+    tags?: string[]
+    attributes?: Record<string, string[]>
+    classes?: Record<string, string[]>
+  }
+}
+
+function stripTags(html: string) {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+}
+
+function createContext({ resolveWikiLink }: RenderOptions = {}) {
+  const seen = new Map<string, number>()
+  const trustedOutput: { html: string; text: string }[] = []
+  // Random per document, so the author can't write a placeholder themselves
+  const nonce = crypto.randomUUID()
+  const placeholder = new RegExp(`@@trusted-${nonce}-(\\d+)@@`, 'g')
+
+  const context: RenderContext & { restore(html: string): string } = {
+    headings: [],
+    resolveWikiLink,
+    slug(text) {
+      const base = slugify(text, { lower: true, strict: true }) || 'section'
+      const count = seen.get(base) ?? 0
+      seen.set(base, count + 1)
+      return count === 0 ? base : `${base}-${count}`
+    },
+    trusted(html, text) {
+      trustedOutput.push({ html, text })
+      return `@@trusted-${nonce}-${trustedOutput.length - 1}@@`
+    },
+    plainText(html) {
+      return stripTags(html.replace(placeholder, (_, index) => escapeHtml(trustedOutput[Number(index)].text)))
+    },
+    restore(html) {
+      return html.replace(placeholder, (_, index) => trustedOutput[Number(index)].html)
+    },
+  }
+
+  return context
+}
+
+// Every heading gets an id and a "#" link to itself, and is recorded for the
+// table of contents
+const headingAnchors: MarkdownPlugin = {
+  name: 'heading-anchors',
+  extension: (context) => ({
+    renderer: {
+      heading({ tokens, depth }) {
+        const content = this.parser.parseInline(tokens)
+        const text = context.plainText(content)
+        const id = context.slug(text)
+        context.headings.push({ id, text, depth })
+        return `<h${depth} id="${id}"><a class="heading-anchor" href="#${id}" aria-hidden="true">#</a>${content}</h${depth}>\n`
+      },
+    },
+  }),
+  allow: {
+    attributes: { h1: ['id'], h2: ['id'], h3: ['id'], h4: ['id'], h5: ['id'], h6: ['id'], a: ['aria-hidden'] },
+    classes: { a: ['heading-anchor'] },
+  },
+}
+
+// Fenced code blocks are highlighted on the server; the colours come from the
+// .hljs rules in globals.css. Unknown languages are shown as plain text.
+const codeHighlighting: MarkdownPlugin = {
+  name: 'code-highlighting',
+  extension: () => markedHighlight({
+    emptyLangClass: 'hljs',
+    langPrefix: 'hljs language-',
+    highlight(code, lang) {
+      const language = hljs.getLanguage(lang) ? lang : 'plaintext'
+      return hljs.highlight(code, { language }).value
+    },
+  }),
+  allow: {
+    classes: { code: ['hljs', 'language-*'], span: ['hljs-*'] },
+  },
+}
+
+// $inline$ and $$display$$ TeX, rendered by KaTeX with its stylesheet
+// imported by the Markdown component. A single $ needs a non-space right
+// inside it and no digit after it, so prices like "$5 and $10" stay text.
+const INLINE_MATH = /^\$\$((?:\\.|[^\\$])+?)\$\$|^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/
+const BLOCK_MATH = /^ {0,3}\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/
+
+interface MathToken extends Tokens.Generic {
+  tex: string
+  displayMode: boolean
+}
+
+const math: MarkdownPlugin = {
+  name: 'math',
+  extension: (context) => {
+    const renderer = ({ tex, displayMode }: Tokens.Generic) => context.trusted(
+      katex.renderToString(tex, { displayMode, throwOnError: false, strict: 'ignore' }),
+      tex
+    )
+
+    return {
+      extensions: [
+        {
+          name: 'blockMath',
+          level: 'block',
+          start: (src) => src.match(/^ {0,3}\$\$/m)?.index,
+          tokenizer(src): MathToken | undefined {
+            const match = BLOCK_MATH.exec(src)
+            if (match) {
+              return { type: 'blockMath', raw: match[0], tex: match[1].trim(), displayMode: true }
+            }
+          },
+          // Wide formulas scroll sideways instead of overflowing the page
+          renderer: (token) => `<div class="math-display">${renderer(token)}</div>\n`,
+        },
+        {
+          name: 'inlineMath',
+          level: 'inline',
+          start: (src) => src.indexOf('$'),
+          tokenizer(src): MathToken | undefined {
+            const match = INLINE_MATH.exec(src)
+            if (match) {
+              const displayMode = match[1] !== undefined
+              return { type: 'inlineMath', raw: match[0], tex: (match[1] ?? match[2]).trim(), displayMode }
+            }
+          },
+          renderer,
+        },
+      ],
+    }
+  },
+  allow: {
+    classes: { div: ['math-display'] },
+  },
+}
+
+// [^label] references and their [^label]: definitions, listed at the end with
+// links back to where they were cited
+const footnotes: MarkdownPlugin = {
+  name: 'footnotes',
+  extension: () => markedFootnote({ refMarkers: true }),
+  allow: {
+    attributes: {
+      a: ['id', 'data-footnote-ref', 'data-footnote-backref', 'aria-describedby', 'aria-label'],
+      li: ['id'],
+      section: ['data-footnotes'],
+    },
+    classes: { section: ['footnotes'], h2: ['sr-only'] },
+  },
+}
+
+// GitHub-style callouts, a blockquote starting with [!NOTE], [!TIP],
+// [!IMPORTANT], [!WARNING] or [!CAUTION]. Styled like the brutalist Alert.
+const CALLOUT_ICONS: Record<string, string> = {
+  note: 'ℹ',
+  tip: '✓',
+  important: '★',
+  warning: '⚠',
+  caution: '⚠',
+}
+
+const callouts: MarkdownPlugin = {
+  name: 'callouts',
+  extension: () => markedAlert({
+    variants: Object.entries(CALLOUT_ICONS).map(([type, icon]) => ({
+      type,
+      icon: `<span class="markdown-alert-icon" aria-hidden="true">${icon}</span>`,
+    })),
+  }),
+  allow: {
+    attributes: { span: ['aria-hidden'] },
+    classes: {
+      div: ['markdown-alert', 'markdown-alert-*'],
+      p: ['markdown-alert-title'],
+      span: ['markdown-alert-icon'],
+    },
+  },
+}
+
+// ```diagram (or ```nomnoml) fences drawn as SVG with nomnoml, in the site's
+// colours unless the diagram sets its own. A diagram that doesn't parse is
+// shown as its source with the error.
+const DIAGRAM_FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*(?:diagram|nomnoml)[ \t]*\n([\s\S]*?)(?:\n {0,3}\1[ \t]*(?:\n+|$)|$)/
+const DIAGRAM_STYLE = '#stroke: #000000\n#fill: #cff27e; #ffffff\n#lineWidth: 2\n'
+
+const SVG_PRESENTATION = [
+  'fill', 'stroke', 'stroke-width', 'stroke-linejoin', 'stroke-linecap', 'stroke-dasharray', 'transform',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'text-align',
+]
+
+const diagrams: MarkdownPlugin = {
+  name: 'diagrams',
+  extension: () => ({
+    extensions: [
+      {
+        name: 'diagram',
+        level: 'block',
+        start: (src) => src.match(/^ {0,3}(`{3,}|~{3,})[ \t]*(?:diagram|nomnoml)/m)?.index,
+        tokenizer(src) {
+          const match = DIAGRAM_FENCE.exec(src)
+          if (match) {
+            return { type: 'diagram', raw: match[0], source: match[2] }
+          }
+        },
+        renderer({ source }) {
+          try {
+            // The <desc> nomnoml adds repeats the source, style lines included
+            const svg = nomnoml.renderSvg(DIAGRAM_STYLE + source).replace(/<desc[^>]*>[\s\S]*?<\/desc>/, '')
+            return `<figure class="diagram">${svg}</figure>\n`
+          } catch (error) {
+            // Line numbers counted from the author's source, not the style lines
+            const message = (error instanceof Error ? error.message : String(error))
+              .replace(/line (\d+)/, (_, line) => `line ${Number(line) - DIAGRAM_STYLE.split('\n').length + 1}`)
+            return `<figure class="diagram diagram-error"><pre><code>${escapeHtml(source)}</code></pre><figcaption>Diagram error: ${escapeHtml(message)}</figcaption></figure>\n`
+          }
+        },
+      },
+    ],
+  }),
+  allow: {
+    tags: ['svg', 'g', 'rect', 'path', 'ellipse', 'circle', 'line', 'polyline', 'polygon', 'text'],
+    attributes: {
+      svg: ['width', 'height', 'viewbox', 'xmlns', 'version'],
+      g: SVG_PRESENTATION,
+      rect: [...SVG_PRESENTATION, 'x', 'y', 'width', 'height', 'rx', 'ry'],
+      path: [...SVG_PRESENTATION, 'd'],
+      ellipse: [...SVG_PRESENTATION, 'cx', 'cy', 'rx', 'ry'],
+      circle: [...SVG_PRESENTATION, 'cx', 'cy', 'r'],
+      line: [...SVG_PRESENTATION, 'x1', 'y1', 'x2', 'y2'],
+      polyline: [...SVG_PRESENTATION, 'points'],
+      polygon: [...SVG_PRESENTATION, 'points'],
+      text: [...SVG_PRESENTATION, 'x', 'y'],
+    },
+    classes: { figure: ['diagram', 'diagram-error'] },
+  },
+}
+
+// [[Target]] or [[Target|label]], resolved by the caller. Targets that don't
+// resolve are shown as broken links.
+const WIKI_LINK = /^\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/
+
+interface WikiLinkToken extends Tokens.Generic {
+  target: string
+  label: string | undefined
+}
+
+const wikiLinks: MarkdownPlugin = {
+  name: 'wiki-links',
+  extension: (context) => ({
+    extensions: [
+      {
+        name: 'wikiLink',
+        level: 'inline',
+        start: (src) => src.indexOf('[['),
+        tokenizer(src): WikiLinkToken | undefined {
+          const match = WIKI_LINK.exec(src)
+          if (match && match[1].trim()) {
+            return { type: 'wikiLink', raw: match[0], target: match[1].trim(), label: match[2]?.trim() }
+          }
+        },
+        renderer({ target, label }) {
+          if (!context.resolveWikiLink) {
+            return escapeHtml(label || target)
+          }
+
+          const resolved = context.resolveWikiLink(target)
+          if (!resolved) {
+            return `<span class="wiki-link wiki-link-broken" title="No thought called &quot;${escapeHtml(target)}&quot; yet">${escapeHtml(label || target)}</span>`
+          }
+          return `<a class="wiki-link" href="${escapeHtml(resolved.href)}">${escapeHtml(label || resolved.text)}</a>`
+        },
+      },
+    ],
+  }),
+  allow: {
+    attributes: { span: ['title'] },
+    classes: { a: ['wiki-link'], span: ['wiki-link', 'wiki-link-broken'] },
+  },
+}
+
+const PLUGINS: MarkdownPlugin[] = [headingAnchors, codeHighlighting, math, footnotes, callouts, diagrams, wikiLinks]
+
+function isExternal(href: string) {
+  try {
+    const url = new URL(href, siteUrl())
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.origin !== new URL(siteUrl()).origin
+  } catch {
+    return false
+  }
+}
+
+function mergeLists(base: Record<string, string[]>, extra: Record<string, string[]> = {}) {
+  const merged = { ...base }
+  for (const [key, values] of Object.entries(extra)) {
+    merged[key] = [...(merged[key] ?? []), ...values]
+  }
+  return merged
+}
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = PLUGINS.reduce<sanitizeHtml.IOptions>(
+  (options, { allow = {} }) => ({
+    ...options,
+    allowedTags: [...(options.allowedTags || []), ...(allow.tags ?? [])],
+    allowedAttributes: mergeLists(options.allowedAttributes as Record<string, string[]>, allow.attributes),
+    allowedClasses: mergeLists(options.allowedClasses as Record<string, string[]>, allow.classes),
+  }),
+  {
+    allowedTags: [...sanitizeHtml.defaults.allowedTags, 'img', 'del', 'ins', 'input', 'details', 'summary', 'sup', 'sub'],
+    allowedAttributes: {
+      a: ['href', 'name', 'title', 'target', 'rel'],
+      img: ['src', 'alt', 'title', 'width', 'height', 'loading', 'decoding'],
+      input: ['type', 'checked', 'disabled'],
+      ol: ['start'],
+      th: ['align'],
+      td: ['align'],
+    },
+    allowedClasses: {},
+    allowedSchemes: ['http', 'https', 'mailto'],
+    transformTags: {
+      // Links off the site open in a new tab without access to this one
+      a: (tagName, attribs) => ({
+        tagName,
+        attribs: attribs.href && isExternal(attribs.href)
+          ? { ...attribs, target: '_blank', rel: 'noopener noreferrer' }
+          : attribs,
+      }),
+      img: (tagName, attribs) => ({
+        tagName,
+        attribs: { ...attribs, loading: 'lazy', decoding: 'async' },
+      }),
+      // Only the read-only checkboxes of GFM task lists
+      input: (tagName, attribs) => ({
+        tagName,
+        attribs: { type: 'checkbox', disabled: '', ...('checked' in attribs ? { checked: '' } : {}) },
+      }),
+    },
+  }
+)
+
+// Average adult silent reading speed for non-fiction
+const WORDS_PER_MINUTE = 225
+
+function createParser(context: RenderContext) {
+  return new Marked(
+    { gfm: true },
+    ...PLUGINS.flatMap(plugin => (plugin.extension ? [plugin.extension(context)] : []))
+  )
+}
+
+export function renderMarkdown(markdown: string, options?: RenderOptions): RenderedMarkdown {
+  const context = createContext(options)
+  const parser = createParser(context)
+
+  const html = sanitizeHtml(parser.parse(markdown, { async: false }), SANITIZE_OPTIONS)
+
+  // Counted on the rendered text, so markup and link targets don't count
+  const words = context.plainText(html).split(/\s+/).filter(Boolean).length
+
+  return {
+    html: context.restore(html),
+    headings: context.headings,
+    readingTime: { words, minutes: Math.max(1, Math.round(words / WORDS_PER_MINUTE)) },
+  }
+}
+
+// The targets of the document's [[wiki links]], as written. Only parses, so
+// it is cheap enough to run on every save.
+export function wikiLinkTargets(markdown: string) {
+  const parser = createParser(createContext())
+  const targets: string[] = []
+
+  parser.walkTokens(parser.lexer(markdown), token => {
+    if (token.type === 'wikiLink') {
+      targets.push((token as WikiLinkToken).target)
+    }
+  })
+
+  return targets
+}
+
+// Only documents with a few sections get a table of contents, listing the
+// top three heading levels
+const TOC_MAX_DEPTH = 3
+const TOC_MIN_HEADINGS = 3
+
+export function tableOfContents(headings: TocHeading[]) {
+  const listed = headings.filter(heading => heading.depth <= TOC_MAX_DEPTH)
+  return listed.length >= TOC_MIN_HEADINGS ? listed : []
+}
+
+// "6 min read · 1,342 words"
+export function formatReadingTime({ words, minutes }: ReadingTime) {
+  return `${minutes} min read · ${words.toLocaleString('en-US')} word${words === 1 ? '' : 's'}`
+}
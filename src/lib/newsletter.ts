@@ -0,0 +1,269 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { SubscriberTokenPurpose, signSubscriberToken, verifySubscriberToken } from '@/lib/auth'
+import { sendMail } from '@/lib/mail'
+import { newThoughtEmail, subscriptionConfirmEmail } from '@/lib/mail-templates'
+import { RateLimiter } from '@/lib/rate-limit'
+import { summarize } from '@/lib/seo'
+import { absoluteUrl } from '@/lib/site'
+
+// New-thought emails with double opt-in. A sign-up only stores the address
+// and mails a confirmation link; nothing else is sent until that link is
+// opened. Every newsletter email carries an unsubscribe link. The links in
+// emails only lead to a page with a button; the change happens on its POST.
+//
+// Sending a thought queues one NewsletterDelivery row per confirmed
+// subscriber. The admin page then works through the queue in batches, so a
+// long list never has to fit in a single request and an interrupted send
+// picks up where it stopped.
+
+// Sign-ups accepted per IP address per hour. Each one sends an email, so this
+// also limits how often the form can be used to mail a stranger.
+const SIGNUPS_PER_HOUR = 5
+
+export const NEWSLETTER_BATCH_SIZE = 50
+
+const globalForNewsletter = globalThis as unknown as {
+  subscribeLimiter: RateLimiter | undefined
+}
+
+export const subscribeLimiter = globalForNewsletter.subscribeLimiter ?? new RateLimiter({
+  limit: SIGNUPS_PER_HOUR,
+  windowMs: 60 * 60 * 1000,
+})
+
+if (process.env.NODE_ENV !== 'production') globalForNewsletter.subscribeLimiter = subscribeLimiter
+
+export const activeSubscriberWhere = {
+  confirmedAt: { not: null },
+  unsubscribedAt: null,
+} satisfies Prisma.SubscriberWhereInput
+
+// Stores the address and mails a confirmation link. Addresses that are
+// already subscribed are left alone, and the caller answers the same either
+// way, so the form can't be used to find out who is subscribed.
+export async function subscribe(email: string, ip: string) {
+  const address = email.toLowerCase()
+  const existing = await prisma.subscriber.findUnique({ where: { email: address } })
+
+  if (existing?.confirmedAt && !existing.unsubscribedAt) {
+    return
+  }
+
+  // Coming back after unsubscribing needs a fresh confirmation
+  const subscriber = existing
+    ? await prisma.subscriber.update({
+        where: { id: existing.id },
+        data: { confirmedAt: null, unsubscribedAt: null, ip },
+      })
+    : await prisma.subscriber.create({ data: { email: address, ip } })
+
+  const token = await signSubscriberToken('confirm', subscriber.id)
+
+  await sendMail({
+    to: subscriber.email,
+    ...subscriptionConfirmEmail({ confirmUrl: absoluteUrl(`/newsletter/confirm?token=${token}`) }),
+  })
+}
+
+// The subscriber a confirm or unsubscribe link is for, or null if the link is
+// invalid or expired. Changes nothing: the landing pages use it to ask before
+// acting, since mail scanners open links in emails too.
+export async function subscriberForToken(purpose: SubscriberTokenPurpose, token: unknown) {
+  const subscriberId = await verifySubscriberToken(purpose, token)
+  if (!subscriberId) {
+    return null
+  }
+
+  return prisma.subscriber.findUnique({ where: { id: subscriberId } })
+}
+
+// Whether a confirm link still works. After unsubscribing, only the link from
+// a new sign-up does (subscribing again clears unsubscribedAt), so an old
+// confirmation email can't quietly subscribe someone again.
+export function canConfirm(subscriber: { unsubscribedAt: Date | null }) {
+  return !subscriber.unsubscribedAt
+}
+
+// Returns the confirmed subscriber, or null if the link is invalid, expired
+// or from before the subscriber unsubscribed
+export async function confirmSubscription(token: unknown) {
+  const subscriber = await subscriberForToken('confirm', token)
+  if (!subscriber || !canConfirm(subscriber)) {
+    return null
+  }
+
+  // Conditional, in case they unsubscribe while this request is running
+  const { count } = await prisma.subscriber.updateMany({
+    where: { id: subscriber.id, unsubscribedAt: null },
+    data: { confirmedAt: subscriber.confirmedAt ?? new Date() },
+  })
+
+  return count === 1 ? subscriber : null
+}
+
+// Returns the unsubscribed subscriber, or null if the link is invalid
+export async function unsubscribe(token: unknown) {
+  const subscriber = await subscriberForToken('unsubscribe', token)
+  if (!subscriber) {
+    return null
+  }
+
+  if (subscriber.unsubscribedAt) {
+    return subscriber
+  }
+
+  return prisma.subscriber.update({
+    where: { id: subscriber.id },
+    data: { unsubscribedAt: new Date() },
+  })
+}
+
+export type NewsletterStatus = {
+  // Confirmed subscribers right now, i.e. who a new issue would go to
+  subscriberCount: number
+  issue: {
+    createdAt: Date
+    completedAt: Date | null
+    queuedBy: string | null
+    sent: number
+    failed: number
+    pending: number
+  } | null
+}
+
+export async function newsletterStatus(postId: string): Promise<NewsletterStatus> {
+  const [subscriberCount, issue] = await Promise.all([
+    prisma.subscriber.count({ where: activeSubscriberWhere }),
+    prisma.newsletterIssue.findUnique({
+      where: { postId },
+      include: { queuedBy: { select: { username: true } } },
+    }),
+  ])
+
+  if (!issue) {
+    return { subscriberCount, issue: null }
+  }
+
+  const [sent, failed, pending] = await Promise.all([
+    prisma.newsletterDelivery.count({ where: { issueId: issue.id, sentAt: { not: null } } }),
+    prisma.newsletterDelivery.count({ where: { issueId: issue.id, error: { not: null } } }),
+    prisma.newsletterDelivery.count({ where: { issueId: issue.id, sentAt: null, error: null } }),
+  ])
+
+  return {
+    subscriberCount,
+    issue: {
+      createdAt: issue.createdAt,
+      completedAt: issue.completedAt,
+      queuedBy: issue.queuedBy?.username ?? null,
+      sent,
+      failed,
+      pending,
+    },
+  }
+}
+
+// Creates the issue for a thought with a delivery for every confirmed
+// subscriber. Returns the existing issue if the thought was queued before.
+export async function queueNewsletter(postId: string, queuedById: string) {
+  const existing = await prisma.newsletterIssue.findUnique({ where: { postId } })
+  if (existing) {
+    return existing
+  }
+
+  const subscribers = await prisma.subscriber.findMany({
+    where: activeSubscriberWhere,
+    select: { id: true },
+  })
+
+  return prisma.newsletterIssue.create({
+    data: {
+      postId,
+      queuedById,
+      completedAt: subscribers.length === 0 ? new Date() : null,
+      deliveries: {
+        create: subscribers.map(({ id }) => ({ subscriberId: id })),
+      },
+    },
+  })
+}
+
+// Sends the next batch of pending deliveries. A failed delivery keeps its
+// error and is not retried; people who unsubscribed since the issue was
+// queued are dropped from it.
+//
+// Two batches may run at once (two open edit pages), so each delivery is
+// claimed by setting sentAt before its email goes out, and skipped if another
+// batch got there first. A send that dies mid-email can therefore miss that
+// one recipient, but never mails anyone twice.
+export async function sendNewsletterBatch(issueId: string) {
+  const issue = await prisma.newsletterIssue.findUniqueOrThrow({
+    where: { id: issueId },
+    include: { post: { select: { title: true, slug: true, excerpt: true, content: true } } },
+  })
+
+  const deliveries = await prisma.newsletterDelivery.findMany({
+    where: { issueId, sentAt: null, error: null },
+    include: { subscriber: true },
+    orderBy: { createdAt: 'asc' },
+    take: NEWSLETTER_BATCH_SIZE,
+  })
+
+  const { post } = issue
+  const summary = post.excerpt || summarize(post.content, 300)
+  const url = absoluteUrl(`/thoughts/${post.slug}`)
+
+  for (const delivery of deliveries) {
+    const { subscriber } = delivery
+
+    if (subscriber.unsubscribedAt) {
+      await prisma.newsletterDelivery.deleteMany({ where: { id: delivery.id, sentAt: null } })
+      continue
+    }
+
+    const claimed = await prisma.newsletterDelivery.updateMany({
+      where: { id: delivery.id, sentAt: null, error: null },
+      data: { sentAt: new Date() },
+    })
+    if (claimed.count === 0) {
+      continue
+    }
+
+    try {
+      const unsubscribeToken = await signSubscriberToken('unsubscribe', subscriber.id)
+
+      await sendMail({
+        to: subscriber.email,
+        ...newThoughtEmail({
+          title: post.title,
+          summary,
+          url,
+          unsubscribeUrl: absoluteUrl(`/newsletter/unsubscribe?token=${unsubscribeToken}`),
+        }),
+        // One-click unsubscribe from the mail client (RFC 8058)
+        headers: {
+          'List-Unsubscribe': `<${absoluteUrl(`/api/newsletter/unsubscribe?token=${unsubscribeToken}`)}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      })
+    } catch (error) {
+      console.error(`Error sending newsletter to ${subscriber.email}:`, error)
+      await prisma.newsletterDelivery.update({
+        where: { id: delivery.id },
+        data: { sentAt: null, error: error instanceof Error ? error.message : String(error) },
+      })
+    }
+  }
+
+  const pending = await prisma.newsletterDelivery.count({
+    where: { issueId, sentAt: null, error: null },
+  })
+
+  if (pending === 0 && !issue.completedAt) {
+    await prisma.newsletterIssue.update({
+      where: { id: issueId },
+      data: { completedAt: new Date() },
+    })
+  }
+}
@@ -0,0 +1,31 @@
+import { sendMail } from '@/lib/mail'
+import { RenderedEmail, accountLockedEmail, contactMessageEmail } from '@/lib/mail-templates'
+
+// Alerts for the site owner, sent to MAIL_NOTIFY_TO (nothing is sent if it is
+// unset). A failed delivery is logged and never fails the request that
+// triggered it.
+
+export function notificationAddress() {
+  return process.env.MAIL_NOTIFY_TO || null
+}
+
+async function notify(email: RenderedEmail, options: { replyTo?: string } = {}) {
+  const to = notificationAddress()
+  if (!to) {
+    return
+  }
+
+  try {
+    await sendMail({ to, ...email, ...options })
+  } catch (error) {
+    console.error('Error sending notification email:', error)
+  }
+}
+
+export async function notifyContactMessage(message: Parameters<typeof contactMessageEmail>[0]) {
+  await notify(contactMessageEmail(message), { replyTo: message.email })
+}
+
+export async function notifyAccountLocked(details: Parameters<typeof accountLockedEmail>[0]) {
+  await notify(accountLockedEmail(details))
+}
@@ -0,0 +1,67 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+
+// scrypt cost parameters. They are stored alongside every hash so they can be
+// raised later without invalidating existing passwords.
+const SCRYPT_N = 16384
+const SCRYPT_R = 8
+const SCRYPT_P = 1
+const KEY_LENGTH = 64
+const SALT_LENGTH = 16
+
+export const MIN_PASSWORD_LENGTH = 10
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  options: { N: number; r: number; p: number },
+  keyLength: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { ...options, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error)
+      else resolve(key)
+    })
+  })
+}
+
+// Produces a self-describing hash: scrypt$N$r$p$salt$key (base64 parts)
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH)
+  const key = await deriveKey(password, salt, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P }, KEY_LENGTH)
+
+  return [
+    'scrypt',
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString('base64'),
+    key.toString('base64'),
+  ].join('$')
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, n, r, p, salt, key] = storedHash.split('$')
+
+  if (algorithm !== 'scrypt' || !salt || !key) {
+    return false
+  }
+
+  const expected = Buffer.from(key, 'base64')
+  const actual = await deriveKey(
+    password,
+    Buffer.from(salt, 'base64'),
+    { N: Number(n), r: Number(r), p: Number(p) },
+    expected.length
+  )
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Returns an error message for passwords that don't meet the policy, or null
+export function checkPasswordPolicy(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+
+  return null
+}
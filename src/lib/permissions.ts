@@ -0,0 +1,70 @@
+// Role-based permissions for the admin area. Like auth.ts this module is
+// imported by the middleware, so it must stay free of Prisma and Node APIs.
+
+// Mirrors the AdminRole enum in prisma/schema.prisma
+export const ADMIN_ROLES = ['OWNER', 'EDITOR', 'AUTHOR'] as const
+export type AdminRole = (typeof ADMIN_ROLES)[number]
+
+export type Permission =
+  | 'thoughts:create'
+  | 'thoughts:edit-any'
+  | 'thoughts:publish'
+  | 'thoughts:delete'
+  | 'projects:manage'
+  | 'users:manage'
+  | 'audit:view'
+  | 'inbox:manage'
+  | 'mail:manage'
+  | 'comments:moderate'
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  OWNER: [
+    'thoughts:create',
+    'thoughts:edit-any',
+    'thoughts:publish',
+    'thoughts:delete',
+    'projects:manage',
+    'users:manage',
+    'audit:view',
+    'inbox:manage',
+    'mail:manage',
+    'comments:moderate',
+  ],
+  EDITOR: [
+    'thoughts:create',
+    'thoughts:edit-any',
+    'thoughts:publish',
+    'thoughts:delete',
+    'audit:view',
+    'comments:moderate',
+  ],
+  // Authors can only create and edit their own drafts
+  AUTHOR: ['thoughts:create'],
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value)
+}
+
+export function hasPermission(role: AdminRole, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Whole sections of the admin area that are gated on a single permission.
+// Finer-grained checks (ownership, publishing) happen in the route handlers.
+const SECTION_PERMISSIONS: { prefixes: string[]; permission: Permission }[] = [
+  { prefixes: ['/admin/users', '/api/admin/users', '/api/admin/login-attempts'], permission: 'users:manage' },
+  { prefixes: ['/admin/projects', '/api/admin/projects'], permission: 'projects:manage' },
+  { prefixes: ['/admin/audit', '/api/admin/audit'], permission: 'audit:view' },
+  { prefixes: ['/admin/inbox', '/api/admin/inbox'], permission: 'inbox:manage' },
+  { prefixes: ['/admin/mail', '/api/admin/mail'], permission: 'mail:manage' },
+  { prefixes: ['/admin/comments', '/api/admin/comments'], permission: 'comments:moderate' },
+]
+
+export function getSectionPermission(pathname: string): Permission | null {
+  const section = SECTION_PERMISSIONS.find(({ prefixes }) =>
+    prefixes.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`))
+  )
+
+  return section ? section.permission : null
+}
@@ -0,0 +1,69 @@
+import type { Prisma } from '@prisma/client'
+
+// Thoughts and projects are live while `published` is set and the current
+// time falls inside the optional publishAt/unpublishAt window. No job flips
+// anything at those times: the public routes filter on the window, so a
+// scheduled item appears (and expires) on the first request after its time.
+// Imports Prisma types only, so the admin pages can use it too.
+
+export type Schedulable = {
+  published: boolean
+  publishAt: Date | string | null
+  unpublishAt: Date | string | null
+}
+
+export type PublishState = 'draft' | 'scheduled' | 'live' | 'expired'
+
+function toTime(value: Date | string | null) {
+  return value === null ? null : new Date(value).getTime()
+}
+
+export function publishState(item: Schedulable, now = new Date()): PublishState {
+  if (!item.published) {
+    return 'draft'
+  }
+
+  const publishAt = toTime(item.publishAt)
+  const unpublishAt = toTime(item.unpublishAt)
+
+  if (unpublishAt !== null && unpublishAt <= now.getTime()) {
+    return 'expired'
+  }
+  if (publishAt !== null && publishAt > now.getTime()) {
+    return 'scheduled'
+  }
+  return 'live'
+}
+
+// The date an item counts as published on: its scheduled start, or when it
+// was created. Pages, feeds, metadata and share images all show this one.
+export function publishedDate<T extends Date | string>(item: { publishAt: T | null; createdAt: T }): T {
+  return item.publishAt ?? item.createdAt
+}
+
+// Prisma filter for items that are live right now. The same shape works for
+// BlogPost and Project.
+export function liveWhere(now = new Date()) {
+  return {
+    published: true,
+    AND: [
+      { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+      { OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] },
+    ],
+  } satisfies Prisma.BlogPostWhereInput & Prisma.ProjectWhereInput
+}
+
+// "2d 4h", "3h 12m", "45m": how long until a scheduled change
+export function formatCountdown(target: Date | string, now = new Date()) {
+  const minutes = Math.max(0, Math.ceil((new Date(target).getTime() - now.getTime()) / 60000))
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+
+  if (days > 0) {
+    return `${days}d ${hours}h`
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`
+  }
+  return `${minutes}m`
+}
@@ -0,0 +1,135 @@
+// Fixed-window rate limiting with a pluggable store. The in-memory store is the
+// default and works for a single server process; a shared store (for example a
+// Postgres table keyed by `key` with `count` and `expiresAt` columns) can be
+// dropped in by implementing RateLimitStore.
+
+export interface RateLimitEntry {
+  count: number
+  // Epoch milliseconds at which the entry is discarded
+  expiresAt: number
+}
+
+export interface RateLimitStore {
+  // Adds one to the counter for `key`, starting a new window of `windowMs`
+  // if there is no live entry. Returns the entry after incrementing.
+  increment(key: string, windowMs: number, now: number): Promise<RateLimitEntry>
+  // Returns the live entry for `key`, or null if there is none
+  get(key: string, now: number): Promise<RateLimitEntry | null>
+  delete(key: string): Promise<void>
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>()
+
+  async increment(key: string, windowMs: number, now: number) {
+    const current = await this.get(key, now)
+    const entry = current
+      ? { count: current.count + 1, expiresAt: current.expiresAt }
+      : { count: 1, expiresAt: now + windowMs }
+
+    this.entries.set(key, entry)
+    this.prune(now)
+
+    return entry
+  }
+
+  async get(key: string, now: number) {
+    const entry = this.entries.get(key)
+
+    if (!entry) {
+      return null
+    }
+
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key)
+      return null
+    }
+
+    return entry
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key)
+  }
+
+  // Keeps the map from growing without bound under a flood of unique keys
+  private prune(now: number) {
+    if (this.entries.size < 10000) {
+      return
+    }
+
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    })
+  }
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // Seconds until the current window ends
+  retryAfter: number
+}
+
+export interface RateLimiterOptions {
+  limit: number
+  windowMs: number
+  store?: RateLimitStore
+  // Injectable clock, so limits can be exercised without waiting
+  now?: () => number
+}
+
+export class RateLimiter {
+  readonly store: RateLimitStore
+  private readonly now: () => number
+
+  constructor(private readonly options: RateLimiterOptions) {
+    this.store = options.store ?? new MemoryRateLimitStore()
+    this.now = options.now ?? Date.now
+  }
+
+  // Counts one hit against `key`
+  async consume(key: string): Promise<RateLimitResult> {
+    const now = this.now()
+    const entry = await this.store.increment(key, this.options.windowMs, now)
+
+    return this.toResult(entry, now)
+  }
+
+  // Reports the state of `key` without counting a hit
+  async peek(key: string): Promise<RateLimitResult> {
+    const now = this.now()
+    const entry = await this.store.get(key, now)
+
+    return this.toResult(entry, now)
+  }
+
+  async reset(key: string) {
+    await this.store.delete(key)
+  }
+
+  private toResult(entry: RateLimitEntry | null, now: number): RateLimitResult {
+    if (!entry) {
+      return { allowed: true, remaining: this.options.limit, retryAfter: 0 }
+    }
+
+    return {
+      allowed: entry.count <= this.options.limit,
+      remaining: Math.max(0, this.options.limit - entry.count),
+      retryAfter: Math.ceil((entry.expiresAt - now) / 1000),
+    }
+  }
+}
+
+// Best-effort client address. Only trustworthy behind a proxy that sets
+// x-forwarded-for (as Vercel does).
+export function getClientIp(request: Request) {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim()
+  }
+
+  return request.headers.get('x-real-ip') ?? 'unknown'
+}
@@ -0,0 +1,25 @@
+import { revalidatePath } from 'next/cache'
+
+// Public thought and project pages are statically generated. Admin routes call
+// these after every change so the next visitor gets a fresh render instead of
+// waiting for the time-based revalidation. Pass the old slug as well when it
+// may have changed. Both also rebuild the cached /api/graph.
+
+export function revalidateThought(...slugs: string[]) {
+  revalidatePath('/')
+  revalidatePath('/api/graph')
+  for (const slug of Array.from(new Set(slugs))) {
+    revalidatePath(`/thoughts/${slug}`)
+    revalidatePath(`/words/${slug}`)
+    revalidatePath(`/og/thoughts/${slug}`)
+  }
+}
+
+export function revalidateProject(...slugs: string[]) {
+  revalidatePath('/')
+  revalidatePath('/api/graph')
+  for (const slug of Array.from(new Set(slugs))) {
+    revalidatePath(`/projects/${slug}`)
+    revalidatePath(`/og/projects/${slug}`)
+  }
+}
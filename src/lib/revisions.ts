@@ -0,0 +1,132 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import type { AuditEntityType } from '@/lib/audit'
+
+// The fields a revision captures and a restore writes back. Publishing state
+// and slugs are left alone, so restoring never unpublishes or moves a page.
+export const REVISIONED_FIELDS: Record<AuditEntityType, string[]> = {
+  BlogPost: ['title', 'content', 'excerpt', 'tags'],
+  Project: ['title', 'description', 'content', 'imageUrl', 'repoUrl', 'demoUrl', 'technologies'],
+}
+
+export type RevisionSnapshot = Record<string, unknown>
+
+type Entity = { id: string } & Record<string, unknown>
+
+export function takeSnapshot(entityType: AuditEntityType, entity: Record<string, unknown>): RevisionSnapshot {
+  return Object.fromEntries(REVISIONED_FIELDS[entityType].map(field => [field, entity[field] ?? null]))
+}
+
+function sameSnapshot(a: Prisma.JsonValue, b: RevisionSnapshot) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+type RevisionInput = {
+  entityType: AuditEntityType
+  entity: Entity
+  before?: Entity | null
+  author: { id: string; username: string }
+  restoredFrom?: number | null
+}
+
+// Stores a revision of the entity as it is after a save, unless none of the
+// revisioned fields changed. Rows that were last saved before revision history
+// existed get their previous state stored first, so the first edit can be undone.
+async function recordRevision(
+  tx: Prisma.TransactionClient,
+  { entityType, entity, before = null, author, restoredFrom = null }: RevisionInput
+) {
+  const latest = await tx.revision.findFirst({
+    where: { entityType, entityId: entity.id },
+    orderBy: { number: 'desc' },
+  })
+
+  let number = latest?.number ?? 0
+  let previous: Prisma.JsonValue = latest?.snapshot ?? null
+
+  if (!latest && before) {
+    previous = takeSnapshot(entityType, before) as Prisma.JsonObject
+    number = 1
+
+    await tx.revision.create({
+      data: {
+        entityType,
+        entityId: entity.id,
+        number,
+        snapshot: previous as Prisma.InputJsonObject,
+      },
+    })
+  }
+
+  const snapshot = takeSnapshot(entityType, entity)
+
+  if (previous && sameSnapshot(previous, snapshot) && restoredFrom === null) {
+    return
+  }
+
+  await tx.revision.create({
+    data: {
+      entityType,
+      entityId: entity.id,
+      number: number + 1,
+      snapshot: snapshot as Prisma.InputJsonObject,
+      authorId: author.id,
+      authorUsername: author.username,
+      restoredFrom,
+    },
+  })
+}
+
+// Runs a create or update and stores its revision in the same transaction, so
+// a save either lands with its revision or not at all. The save goes first:
+// updating the row locks it until the transaction commits, so two saves of the
+// same entity number their revisions one after the other instead of both
+// reading the same latest number.
+export async function saveWithRevision<T extends Entity>(
+  save: (tx: Prisma.TransactionClient) => Promise<T>,
+  revision: Omit<RevisionInput, 'entity'>
+) {
+  return prisma.$transaction(async tx => {
+    const entity = await save(tx)
+    await recordRevision(tx, { ...revision, entity })
+    return entity
+  })
+}
+
+// Newest first, without the snapshots
+export async function listRevisions(entityType: AuditEntityType, entityId: string) {
+  return prisma.revision.findMany({
+    where: { entityType, entityId },
+    orderBy: { number: 'desc' },
+    select: {
+      id: true,
+      number: true,
+      authorUsername: true,
+      restoredFrom: true,
+      createdAt: true,
+    },
+  })
+}
+
+export async function getRevision(entityType: AuditEntityType, entityId: string, revisionId: string) {
+  const revision = await prisma.revision.findUnique({
+    where: { id: revisionId },
+  })
+
+  // The revision has to belong to the entity in the URL
+  if (!revision || revision.entityType !== entityType || revision.entityId !== entityId) {
+    return null
+  }
+
+  return revision
+}
+
+// The update data that puts an entity back to the state in a revision
+export function restoreData(entityType: AuditEntityType, snapshot: Prisma.JsonValue) {
+  const values = (snapshot ?? {}) as RevisionSnapshot
+  return Object.fromEntries(
+    REVISIONED_FIELDS[entityType]
+      .filter(field => field in values)
+      .map(field => [field, values[field]])
+  )
+}
@@ -0,0 +1,106 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import type { SearchResult, SearchTextPart } from '@/types/search'
+
+// Full-text search over live thoughts and projects. Both tables carry a
+// generated, weighted `searchVector` column (title > tags/excerpt > content),
+// so a query is an index lookup plus ranking of the matches.
+
+export const SEARCH_TYPES = ['thought', 'project'] as const
+export type SearchType = (typeof SEARCH_TYPES)[number]
+
+export const MIN_QUERY_LENGTH = 2
+export const MAX_QUERY_LENGTH = 200
+
+// ts_headline wraps matches in these. Control characters can't come from the
+// markdown we index, unlike HTML tags, so the snippets never need escaping.
+const MATCH_START = '\u0002'
+const MATCH_STOP = '\u0003'
+
+const TITLE_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_STOP}", HighlightAll=true`
+const SNIPPET_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_STOP}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`
+
+// Matches the live window in src/lib/publishing.ts
+const LIVE = Prisma.sql`
+  published = true
+  AND ("publishAt" IS NULL OR "publishAt" <= NOW() AT TIME ZONE 'UTC')
+  AND ("unpublishAt" IS NULL OR "unpublishAt" > NOW() AT TIME ZONE 'UTC')
+`
+
+const BRANCHES: Record<SearchType, Prisma.Sql> = {
+  thought: Prisma.sql`
+    SELECT 'thought' AS type, slug, tags, "createdAt",
+      ts_rank("searchVector", query.q) AS rank,
+      ts_headline('english', title, query.q, ${TITLE_OPTIONS}) AS title,
+      ts_headline('english', coalesce(excerpt, '') || ' ' || content, query.q, ${SNIPPET_OPTIONS}) AS snippet
+    FROM "BlogPost", query
+    WHERE "searchVector" @@ query.q AND ${LIVE}
+  `,
+  project: Prisma.sql`
+    SELECT 'project' AS type, slug, technologies AS tags, "createdAt",
+      ts_rank("searchVector", query.q) AS rank,
+      ts_headline('english', title, query.q, ${TITLE_OPTIONS}) AS title,
+      ts_headline('english', description || ' ' || content, query.q, ${SNIPPET_OPTIONS}) AS snippet
+    FROM "Project", query
+    WHERE "searchVector" @@ query.q AND ${LIVE}
+  `,
+}
+
+type SearchRow = {
+  type: SearchType
+  slug: string
+  tags: string[]
+  createdAt: Date
+  rank: number
+  title: string
+  snippet: string
+}
+
+// Snippets come from raw markdown; drop the syntax that reads as noise
+export function stripMarkdown(text: string) {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/\*{1,3}|`{1,3}|~~/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function toTextParts(headline: string): SearchTextPart[] {
+  const parts: SearchTextPart[] = []
+  const [before, ...matches] = stripMarkdown(headline).split(MATCH_START)
+
+  if (before) parts.push({ text: before, match: false })
+
+  for (const chunk of matches) {
+    const [match, rest] = chunk.split(MATCH_STOP)
+    if (match) parts.push({ text: match, match: true })
+    if (rest) parts.push({ text: rest, match: false })
+  }
+
+  return parts
+}
+
+// `query` uses web search syntax: "quoted phrases", -excluded, or
+export async function searchContent(
+  query: string,
+  { types = SEARCH_TYPES, limit = 20 }: { types?: readonly SearchType[]; limit?: number } = {}
+): Promise<SearchResult[]> {
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    WITH query AS (SELECT websearch_to_tsquery('english', ${query}) AS q)
+    SELECT * FROM (${Prisma.join(types.map(type => BRANCHES[type]), ' UNION ALL ')}) results
+    ORDER BY rank DESC, "createdAt" DESC
+    LIMIT ${limit}
+  `
+
+  return rows.map(row => ({
+    type: row.type,
+    slug: row.slug,
+    url: row.type === 'thought' ? `/thoughts/${row.slug}` : `/projects/${row.slug}`,
+    title: toTextParts(row.title),
+    snippet: toTextParts(row.snippet),
+    tags: row.tags,
+    createdAt: row.createdAt.toISOString(),
+    rank: Number(row.rank),
+  }))
+}
@@ -0,0 +1,90 @@
+import type { Metadata } from 'next'
+import { stripMarkdown } from '@/lib/search'
+import { SITE_AUTHOR, SITE_NAME } from '@/lib/site'
+
+// The size Open Graph and Twitter cards display without cropping
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 }
+
+// Search engines cut descriptions off around here
+const DESCRIPTION_LENGTH = 160
+
+// A description for items without an excerpt, taken from the start of the body
+export function summarize(markdown: string, length = DESCRIPTION_LENGTH) {
+  const text = stripMarkdown(markdown)
+  if (text.length <= length) return text
+
+  const cut = text.slice(0, length - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`
+}
+
+type PageMetadataInput = {
+  title: string
+  description: string
+  // Site-relative; resolved against metadataBase in the root layout
+  path: string
+}
+
+type ArticleMetadataInput = PageMetadataInput & {
+  publishedTime: Date
+  modifiedTime: Date
+  tags?: string[]
+  // A generated share card, see src/app/og
+  image?: string
+}
+
+export function pageMetadata({ title, description, path }: PageMetadataInput): Metadata {
+  return {
+    title,
+    description,
+    alternates: { canonical: path },
+    openGraph: {
+      type: 'website',
+      siteName: SITE_NAME,
+      title,
+      description,
+      url: path,
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+  }
+}
+
+export function articleMetadata({
+  title,
+  description,
+  path,
+  publishedTime,
+  modifiedTime,
+  tags = [],
+  image,
+}: ArticleMetadataInput): Metadata {
+  return {
+    title,
+    description,
+    authors: [{ name: SITE_AUTHOR }],
+    keywords: tags,
+    alternates: { canonical: path },
+    openGraph: {
+      type: 'article',
+      siteName: SITE_NAME,
+      title,
+      description,
+      url: path,
+      publishedTime: publishedTime.toISOString(),
+      modifiedTime: modifiedTime.toISOString(),
+      authors: [SITE_AUTHOR],
+      tags,
+      ...(image ? { images: [{ url: image, ...SHARE_IMAGE_SIZE, alt: title }] } : {}),
+    },
+    twitter: {
+      card: image ? 'summary_large_image' : 'summary',
+      title,
+      description,
+      ...(image ? { images: [image] } : {}),
+    },
+  }
+}
@@ -0,0 +1,190 @@
+import { createHash, randomBytes } from 'crypto'
+import { cookies } from 'next/headers'
+import { prisma } from '@/lib/db'
+import {
+  ADMIN_CSRF_COOKIE,
+  ADMIN_REFRESH_COOKIE,
+  ADMIN_TOKEN_COOKIE,
+  REFRESH_TOKEN_MAX_AGE,
+  SESSION_REFRESH_PATH,
+  TOKEN_MAX_AGE,
+  createCsrfToken,
+  signAdminToken,
+} from '@/lib/auth'
+import { adminUserSelect } from '@/lib/admin-users'
+import { getClientIp } from '@/lib/rate-limit'
+import type { AdminRole } from '@/lib/permissions'
+
+// lastSeenAt is only written once a minute so busy sessions don't write on
+// every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000
+
+type SessionUser = { id: string; username: string; role: AdminRole }
+
+// Refresh tokens look like "<sessionId>.<secret>". Only a hash of the secret
+// is stored, and the session id lets us spot a reused (already rotated) token.
+function hashSecret(secret: string) {
+  return createHash('sha256').update(secret).digest('hex')
+}
+
+function newSecret() {
+  return randomBytes(32).toString('base64url')
+}
+
+function parseRefreshToken(token: string | undefined) {
+  const [sessionId, secret] = token?.split('.') ?? []
+  return sessionId && secret ? { sessionId, secret } : null
+}
+
+function refreshExpiry() {
+  return new Date(Date.now() + REFRESH_TOKEN_MAX_AGE * 1000)
+}
+
+async function setSessionCookies(user: SessionUser, sessionId: string, refreshToken: string) {
+  const accessToken = await signAdminToken({
+    sub: user.id,
+    sid: sessionId,
+    username: user.username,
+    role: user.role,
+  })
+
+  cookies().set({
+    name: ADMIN_TOKEN_COOKIE,
+    value: accessToken,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: TOKEN_MAX_AGE,
+  })
+
+  cookies().set({
+    name: ADMIN_REFRESH_COOKIE,
+    value: refreshToken,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: SESSION_REFRESH_PATH,
+    maxAge: REFRESH_TOKEN_MAX_AGE,
+  })
+
+  // Not httpOnly: the admin UI reads it and sends it back as a header
+  cookies().set({
+    name: ADMIN_CSRF_COOKIE,
+    value: await createCsrfToken(sessionId),
+    httpOnly: false,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: REFRESH_TOKEN_MAX_AGE,
+  })
+}
+
+export function clearSessionCookies() {
+  cookies().delete(ADMIN_TOKEN_COOKIE)
+  cookies().delete({ name: ADMIN_REFRESH_COOKIE, path: SESSION_REFRESH_PATH })
+  cookies().delete(ADMIN_CSRF_COOKIE)
+}
+
+// Starts a session for a fully authenticated user and sets its cookies
+export async function createSession(request: Request, user: SessionUser) {
+  const secret = newSecret()
+
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashSecret(secret),
+      userAgent: request.headers.get('user-agent'),
+      ip: getClientIp(request),
+      expiresAt: refreshExpiry(),
+    },
+  })
+
+  await setSessionCookies(user, session.id, `${session.id}.${secret}`)
+
+  return session
+}
+
+// Returns the session with its user if it can still be used
+export async function getActiveSession(sessionId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { user: { select: adminUserSelect } },
+  })
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date() || session.user.disabled) {
+    return null
+  }
+
+  return session
+}
+
+export async function touchSession(session: { id: string; lastSeenAt: Date }) {
+  if (Date.now() - session.lastSeenAt.getTime() < LAST_SEEN_RESOLUTION_MS) {
+    return
+  }
+
+  await prisma.session.update({
+    where: { id: session.id },
+    data: { lastSeenAt: new Date() },
+  })
+}
+
+// Exchanges the refresh cookie for a new access token and refresh token.
+// Presenting a refresh token that was already rotated means it was copied, so
+// the whole session is revoked. Returns false if the user must sign in again.
+export async function refreshSession(request: Request) {
+  const parsed = parseRefreshToken(cookies().get(ADMIN_REFRESH_COOKIE)?.value)
+
+  if (!parsed) {
+    return false
+  }
+
+  const session = await getActiveSession(parsed.sessionId)
+
+  if (!session) {
+    return false
+  }
+
+  const secret = newSecret()
+
+  // Only succeeds if nobody else rotated the token first
+  const { count } = await prisma.session.updateMany({
+    where: {
+      id: session.id,
+      refreshTokenHash: hashSecret(parsed.secret),
+      revokedAt: null,
+    },
+    data: {
+      refreshTokenHash: hashSecret(secret),
+      expiresAt: refreshExpiry(),
+      lastSeenAt: new Date(),
+      ip: getClientIp(request),
+    },
+  })
+
+  if (count === 0) {
+    console.warn(`Refresh token reuse detected, revoking session ${session.id}`)
+    await revokeSession(session.id)
+    return false
+  }
+
+  await setSessionCookies(session.user, session.id, `${session.id}.${secret}`)
+
+  return true
+}
+
+export async function revokeSession(sessionId: string) {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+}
+
+// Signs the user out on every device
+export async function revokeUserSessions(userId: string) {
+  await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+}
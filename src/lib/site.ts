@@ -0,0 +1,17 @@
+// Site-wide details for anything rendered outside the page itself: metadata,
+// feeds and other machine-readable output that needs absolute URLs.
+
+export const SITE_NAME = 'Łukasz Bartoszcze'
+export const SITE_TITLE = 'Łukasz Bartoszcze | Entrepreneur, Builder, Researcher'
+export const SITE_DESCRIPTION = 'Personal website of Łukasz Bartoszcze - Entrepreneur, Builder, Researcher.'
+export const SITE_AUTHOR = 'Łukasz Bartoszcze'
+
+// The public origin, e.g. https://example.com. Set SITE_URL in production;
+// requests may reach the app under an internal host name behind a proxy.
+export function siteUrl() {
+  return (process.env.SITE_URL || 'http://localhost:3000').replace(/\/+$/, '')
+}
+
+export function absoluteUrl(path: string) {
+  return `${siteUrl()}${path.startsWith('/') ? path : `/${path}`}`
+}
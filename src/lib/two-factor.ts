@@ -0,0 +1,65 @@
+import { prisma } from '@/lib/db'
+import { hashRecoveryCode, verifyTotp } from '@/lib/totp'
+
+type TwoFactorUser = {
+  id: string
+  totpSecret: string | null
+  totpEnabledAt: Date | null
+  totpLastUsedStep: number | null
+  recoveryCodeHashes: string[]
+}
+
+export function isTwoFactorEnabled(user: TwoFactorUser) {
+  return !!user.totpEnabledAt && !!user.totpSecret
+}
+
+// Checks an authenticator code or a recovery code for the user. Accepted codes
+// are burned: the TOTP step is remembered and recovery codes are removed.
+// Burning is a conditional write, so when two requests race with the same
+// code only the one whose write lands is accepted.
+export async function verifySecondFactor(
+  user: TwoFactorUser,
+  input: { code?: unknown; recoveryCode?: unknown }
+): Promise<boolean> {
+  if (!isTwoFactorEnabled(user)) {
+    return false
+  }
+
+  if (typeof input.code === 'string') {
+    const step = verifyTotp(user.totpSecret!, input.code)
+
+    if (step === null || (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep)) {
+      return false
+    }
+
+    const { count } = await prisma.adminUser.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    })
+
+    return count === 1
+  }
+
+  if (typeof input.recoveryCode === 'string') {
+    const hash = hashRecoveryCode(input.recoveryCode)
+
+    if (!user.recoveryCodeHashes.includes(hash)) {
+      return false
+    }
+
+    // Removed in place rather than writing back the list read earlier, which
+    // could bring back a code another request just used
+    const count = await prisma.$executeRaw`
+      UPDATE "AdminUser"
+      SET "recoveryCodeHashes" = array_remove("recoveryCodeHashes", ${hash})
+      WHERE id = ${user.id} AND ${hash} = ANY("recoveryCodeHashes")
+    `
+
+    return count === 1
+  }
+
+  return false
+}
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  blogPostSchema,
+  checkSchedule,
+  countParam,
+  inboxMessageSchema,
+  parseBody,
+  parsePartialBody,
+} from '@/lib/validation'
+
+function rawRequest(body: string) {
+  return new Request('http://localhost/api/test', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  })
+}
+
+function jsonRequest(body: unknown) {
+  return rawRequest(JSON.stringify(body))
+}
+
+// The 400 a failed parse answers with
+async function rejection(result: { error?: Response }) {
+  assert.ok(result.error, 'expected the body to be rejected')
+  assert.equal(result.error.status, 400)
+  return result.error.json()
+}
+
+const validPost = { title: ' Hello ', content: 'Body', tags: ['ai', ' ai ', ''] }
+
+describe('parseBody', () => {
+  it('returns the cleaned values, with defaults for missing optional fields', async () => {
+    const { data, error } = await parseBody(jsonRequest(validPost), blogPostSchema)
+
+    assert.equal(error, undefined)
+    assert.deepEqual(data, {
+      title: 'Hello',
+      content: 'Body',
+      excerpt: null,
+      tags: ['ai'],
+      published: false,
+      publishAt: null,
+      unpublishAt: null,
+    })
+  })
+
+  it('rejects fields the schema does not list', async () => {
+    const body = await rejection(await parseBody(jsonRequest({ ...validPost, slug: 'x', authorId: '1' }), blogPostSchema))
+
+    assert.deepEqual(body.fieldErrors, {
+      slug: 'Unknown field "slug"',
+      authorId: 'Unknown field "authorId"',
+    })
+  })
+
+  it('reports every invalid field at once', async () => {
+    const body = await rejection(await parseBody(jsonRequest({ content: 'Body', published: 'yes' }), blogPostSchema))
+
+    assert.deepEqual(Object.keys(body.fieldErrors).sort(), ['published', 'title'])
+    assert.equal(body.fieldErrors.title, 'Title is required')
+  })
+
+  it('rejects bodies that are not a JSON object', async () => {
+    for (const value of [null, [], ['title'], 'text', 42]) {
+      const body = await rejection(await parseBody(jsonRequest(value), blogPostSchema))
+      assert.deepEqual(body.fieldErrors, { _form: 'Request body must be a JSON object' }, JSON.stringify(value))
+    }
+  })
+
+  it('answers invalid JSON with a 400 instead of throwing', async () => {
+    const body = await rejection(await parseBody(rawRequest('{"title":'), blogPostSchema))
+    assert.equal(body.error, 'Request body must be valid JSON')
+  })
+})
+
+describe('parsePartialBody', () => {
+  it('only validates and returns the fields that were sent', async () => {
+    const { data, error } = await parsePartialBody(jsonRequest({ starred: true }), inboxMessageSchema)
+
+    assert.equal(error, undefined)
+    // No defaults for the missing fields, so a PATCH leaves them alone
+    assert.deepEqual(data, { starred: true })
+  })
+
+  it('still rejects invalid and unknown fields', async () => {
+    const body = await rejection(await parsePartialBody(jsonRequest({ title: '', slug: 'x' }), blogPostSchema))
+
+    assert.deepEqual(body.fieldErrors, { title: 'Title is required', slug: 'Unknown field "slug"' })
+  })
+
+  it('accepts an empty object', async () => {
+    const { data, error } = await parsePartialBody(jsonRequest({}), blogPostSchema)
+
+    assert.equal(error, undefined)
+    assert.deepEqual(data, {})
+  })
+})
+
+describe('checkSchedule', () => {
+  const publishAt = new Date('2026-01-01T10:00:00Z')
+
+  it('accepts open-ended and well-ordered windows', () => {
+    assert.equal(checkSchedule({ publishAt: null, unpublishAt: null }), null)
+    assert.equal(checkSchedule({ publishAt, unpublishAt: null }), null)
+    assert.equal(checkSchedule({ publishAt: null, unpublishAt: publishAt }), null)
+    assert.equal(checkSchedule({ publishAt, unpublishAt: new Date('2026-01-02T10:00:00Z') }), null)
+  })
+
+  it('rejects a window that ends when or before it starts', () => {
+    const error = { unpublishAt: 'Unpublish date must be after the publish date' }
+
+    assert.deepEqual(checkSchedule({ publishAt, unpublishAt: publishAt }), error)
+    assert.deepEqual(checkSchedule({ publishAt, unpublishAt: new Date('2025-12-31T10:00:00Z') }), error)
+  })
+})
+
+describe('countParam', () => {
+  it('clamps to between 1 and the maximum and drops fractions', () => {
+    assert.equal(countParam('3', 25, 100), 3)
+    assert.equal(countParam('2.7', 25, 100), 2)
+    assert.equal(countParam('-5', 25, 100), 1)
+    assert.equal(countParam('1000', 25, 100), 100)
+  })
+
+  it('falls back for missing or unusable values', () => {
+    for (const value of [null, '', '0', 'abc', 'Infinity', '1e400']) {
+      assert.equal(countParam(value, 25, 100), 25, String(value))
+    }
+  })
+})
@@ -0,0 +1,399 @@
+import { NextResponse } from 'next/server'
+import { checkPasswordPolicy } from '@/lib/password'
+import { ADMIN_ROLES, AdminRole } from '@/lib/permissions'
+import { PREVIEW_EXPIRY_OPTIONS, PreviewExpiry } from '@/lib/auth'
+import { MODERATION_ACTIONS, ModerationAction } from '@/types/comment'
+
+// Describes the payloads the API accepts. Each schema lists every field
+// a client may send; anything else is rejected, so request bodies can be
+// passed to Prisma only after they went through here. Nothing here touches
+// the database, so it can be tested on its own.
+
+// Field name -> message, shown next to the matching form input
+export type FieldErrors = Record<string, string>
+
+type FieldResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+// Receives undefined when the field is missing from a full (create) payload
+export type Field<T> = (value: unknown) => FieldResult<T>
+
+type Shape = Record<string, Field<unknown>>
+
+export type Infer<S extends Shape> = { [K in keyof S]: S[K] extends Field<infer T> ? T : never }
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+}
+
+export function requiredString(label: string, { max }: { max?: number } = {}): Field<string> {
+  return (value) => {
+    if (isBlank(value)) {
+      return { ok: false, error: `${label} is required` }
+    }
+    if (typeof value !== 'string') {
+      return { ok: false, error: `${label} must be text` }
+    }
+    if (max !== undefined && value.length > max) {
+      return { ok: false, error: `${label} must be at most ${max} characters` }
+    }
+    return { ok: true, value: value.trim() }
+  }
+}
+
+// Empty strings are stored as null so clearing an input clears the column
+export function optionalString(label: string, { max }: { max?: number } = {}): Field<string | null> {
+  return (value) => {
+    if (isBlank(value)) {
+      return { ok: true, value: null }
+    }
+    if (typeof value !== 'string') {
+      return { ok: false, error: `${label} must be text` }
+    }
+    if (max !== undefined && value.length > max) {
+      return { ok: false, error: `${label} must be at most ${max} characters` }
+    }
+    return { ok: true, value: value.trim() }
+  }
+}
+
+export function optionalUrl(label: string): Field<string | null> {
+  return (value) => {
+    if (isBlank(value)) {
+      return { ok: true, value: null }
+    }
+    if (typeof value !== 'string') {
+      return { ok: false, error: `${label} must be text` }
+    }
+
+    try {
+      const url = new URL(value.trim())
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error('Unsupported protocol')
+      }
+    } catch {
+      return { ok: false, error: `${label} must be a full http(s) URL` }
+    }
+
+    return { ok: true, value: value.trim() }
+  }
+}
+
+// Deliberately loose: one @, no spaces, a dot in the domain. Whether the
+// address works is only known by writing to it.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export function email(label: string): Field<string> {
+  return (value) => {
+    if (isBlank(value)) {
+      return { ok: false, error: `${label} is required` }
+    }
+    if (typeof value !== 'string') {
+      return { ok: false, error: `${label} must be text` }
+    }
+
+    const address = value.trim()
+    if (address.length > 254 || !EMAIL_PATTERN.test(address)) {
+      return { ok: false, error: `${label} must be a valid email address` }
+    }
+    return { ok: true, value: address }
+  }
+}
+
+// ISO 8601 timestamps, as sent by the date-time fields in the admin forms
+export function optionalDate(label: string): Field<Date | null> {
+  return (value) => {
+    if (isBlank(value)) {
+      return { ok: true, value: null }
+    }
+    if (typeof value !== 'string') {
+      return { ok: false, error: `${label} must be a date` }
+    }
+
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      return { ok: false, error: `${label} must be a valid date and time` }
+    }
+    return { ok: true, value: date }
+  }
+}
+
+export function boolean(label: string, defaultValue = false): Field<boolean> {
+  return (value) => {
+    if (value === undefined) {
+      return { ok: true, value: defaultValue }
+    }
+    if (typeof value !== 'boolean') {
+      return { ok: false, error: `${label} must be true or false` }
+    }
+    return { ok: true, value }
+  }
+}
+
+// Tags and technologies: trimmed, de-duplicated, empty entries dropped
+export function stringList(
+  label: string,
+  { maxItems = 20, maxLength = 50 }: { maxItems?: number; maxLength?: number } = {}
+): Field<string[]> {
+  return (value) => {
+    if (value === undefined || value === null) {
+      return { ok: true, value: [] }
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      return { ok: false, error: `${label} must be a list of text values` }
+    }
+
+    const items = Array.from(new Set((value as string[]).map(item => item.trim()).filter(Boolean)))
+
+    if (items.length > maxItems) {
+      return { ok: false, error: `${label} can have at most ${maxItems} entries` }
+    }
+    if (items.some(item => item.length > maxLength)) {
+      return { ok: false, error: `Each of the ${label.toLowerCase()} must be at most ${maxLength} characters` }
+    }
+    return { ok: true, value: items }
+  }
+}
+
+// Without a default the field is required
+export function oneOf<T extends string>(label: string, values: readonly T[], defaultValue?: T): Field<T> {
+  return (value) => {
+    if (value === undefined) {
+      return defaultValue === undefined
+        ? { ok: false, error: `${label} is required` }
+        : { ok: true, value: defaultValue }
+    }
+    if (typeof value !== 'string' || !(values as readonly string[]).includes(value)) {
+      return { ok: false, error: `${label} must be one of ${values.join(', ')}` }
+    }
+    return { ok: true, value: value as T }
+  }
+}
+
+// Usernames are stored trimmed and lower-cased
+export function normalizeUsername(username: unknown): string {
+  return typeof username === 'string' ? username.trim().toLowerCase() : ''
+}
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/
+
+function username(): Field<string> {
+  return (value) => {
+    const normalized = normalizeUsername(value)
+    if (!USERNAME_PATTERN.test(normalized)) {
+      return { ok: false, error: 'Username must be 3-32 characters: letters, numbers, dots, dashes or underscores' }
+    }
+    return { ok: true, value: normalized }
+  }
+}
+
+// The signed-in user's current password, checked against its hash rather than
+// the policy, and never trimmed
+function currentPassword(): Field<string> {
+  return (value) => {
+    if (typeof value !== 'string' || value === '') {
+      return { ok: false, error: 'Password is required' }
+    }
+    if (value.length > 200) {
+      return { ok: false, error: 'Password must be at most 200 characters' }
+    }
+    return { ok: true, value }
+  }
+}
+
+function password(): Field<string> {
+  return (value) => {
+    const policyError = checkPasswordPolicy(value)
+    return policyError ? { ok: false, error: policyError } : { ok: true, value: value as string }
+  }
+}
+
+// Checks a request body against a shape. Partial validation (for PATCH) only
+// looks at the fields that were sent.
+function validate(shape: Shape, body: unknown, partial: boolean) {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { errors: { _form: 'Request body must be a JSON object' } as FieldErrors }
+  }
+
+  const input = body as Record<string, unknown>
+  const errors: FieldErrors = {}
+  const data: Record<string, unknown> = {}
+
+  for (const key of Object.keys(input)) {
+    if (!(key in shape)) {
+      errors[key] = `Unknown field "${key}"`
+    }
+  }
+
+  for (const [key, field] of Object.entries(shape)) {
+    if (partial && input[key] === undefined) {
+      continue
+    }
+
+    const result = field(input[key])
+    if (result.ok) {
+      data[key] = result.value
+    } else {
+      errors[key] = result.error
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { data }
+}
+
+// The 400 response for payloads with invalid fields. Also used by routes for
+// checks that span several fields or need the stored record.
+export function invalidFields(fieldErrors: FieldErrors) {
+  return NextResponse.json(
+    { error: 'Please correct the highlighted fields', fieldErrors },
+    { status: 400 }
+  )
+}
+
+type ParseResult<T> = { data: T; error?: never } | { data?: never; error: NextResponse }
+
+async function parse(request: Request, shape: Shape, partial: boolean): Promise<ParseResult<unknown>> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return {
+      error: NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 }),
+    }
+  }
+
+  const result = validate(shape, body, partial)
+
+  if (result.errors) {
+    return { error: invalidFields(result.errors) }
+  }
+
+  return { data: result.data }
+}
+
+// Route handler helpers, used like requireAdmin:
+//   const { data, error: invalid } = await parseBody(request, projectSchema)
+//   if (invalid) return invalid
+export function parseBody<S extends Shape>(request: Request, shape: S) {
+  return parse(request, shape, false) as Promise<ParseResult<Infer<S>>>
+}
+
+export function parsePartialBody<S extends Shape>(request: Request, shape: S) {
+  return parse(request, shape, true) as Promise<ParseResult<Partial<Infer<S>>>>
+}
+
+// A whole number from the query string for paging and limits, between 1 and
+// `max`. Anything missing or unusable falls back to `fallback`. The default
+// cap keeps skip = (page - 1) * pageSize well inside what Postgres accepts.
+export function countParam(value: string | null, fallback: number, max = 10000) {
+  const number = Math.trunc(Number(value))
+  return Math.max(1, Math.min(Number.isFinite(number) && number !== 0 ? number : fallback, max))
+}
+
+export const blogPostSchema = {
+  title: requiredString('Title', { max: 200 }),
+  content: requiredString('Content', { max: 100000 }),
+  excerpt: optionalString('Excerpt', { max: 500 }),
+  tags: stringList('Tags'),
+  published: boolean('Published'),
+  publishAt: optionalDate('Publish date'),
+  unpublishAt: optionalDate('Unpublish date'),
+}
+
+export const projectSchema = {
+  title: requiredString('Title', { max: 200 }),
+  description: requiredString('Description', { max: 1000 }),
+  content: requiredString('Content', { max: 100000 }),
+  imageUrl: optionalUrl('Image URL'),
+  repoUrl: optionalUrl('GitHub URL'),
+  demoUrl: optionalUrl('Demo URL'),
+  technologies: stringList('Technologies'),
+  featured: boolean('Featured'),
+  published: boolean('Published'),
+  publishAt: optionalDate('Publish date'),
+  unpublishAt: optionalDate('Unpublish date'),
+}
+
+// The publish window has to end after it starts. Pass the merged values on
+// PATCH, since only one end of the window may have been sent.
+export function checkSchedule({
+  publishAt,
+  unpublishAt,
+}: {
+  publishAt: Date | null
+  unpublishAt: Date | null
+}): FieldErrors | null {
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    return { unpublishAt: 'Unpublish date must be after the publish date' }
+  }
+  return null
+}
+
+export const adminUserSchema = {
+  username: username(),
+  password: password(),
+  role: oneOf<AdminRole>('Role', ADMIN_ROLES, 'AUTHOR'),
+}
+
+// Changes to an existing account. The username stays as it was created.
+export const adminUserUpdateSchema = {
+  role: oneOf<AdminRole>('Role', ADMIN_ROLES),
+  disabled: boolean('Disabled'),
+  password: password(),
+  // Clears the authenticator and recovery codes
+  resetTwoFactor: boolean('Reset two-factor'),
+  // Lifts a failed-login lockout
+  unlock: boolean('Unlock'),
+}
+
+// Confirming enrollment or regenerating recovery codes on the account page
+export const twoFactorCodeSchema = {
+  code: requiredString('Code', { max: 20 }),
+}
+
+export const twoFactorDisableSchema = {
+  password: currentPassword(),
+}
+
+export const contactMessageSchema = {
+  name: requiredString('Name', { max: 100 }),
+  email: email('Email'),
+  message: requiredString('Message', { max: 5000 }),
+  // Honeypot: hidden from people, filled in by bots that complete every input
+  website: optionalString('Website', { max: 500 }),
+}
+
+export const subscribeSchema = {
+  email: email('Email'),
+  // Honeypot, as on the contact form
+  website: optionalString('Website', { max: 500 }),
+}
+
+export const commentSchema = {
+  name: requiredString('Name', { max: 100 }),
+  email: email('Email'),
+  body: requiredString('Comment', { max: 5000 }),
+  // The comment being answered, if any
+  parentId: optionalString('Reply to', { max: 50 }),
+  // Honeypot, as on the contact form
+  website: optionalString('Website', { max: 500 }),
+}
+
+export const commentModerationSchema = {
+  ids: stringList('Comments', { maxItems: 100, maxLength: 50 }),
+  action: oneOf<ModerationAction>('Action', MODERATION_ACTIONS),
+}
+
+// Flags an admin sets on a message from the inbox
+export const inboxMessageSchema = {
+  read: boolean('Read'),
+  starred: boolean('Starred'),
+  archived: boolean('Archived'),
+}
+
+export const mailTestSchema = {
+  to: email('Recipient'),
+}
+
+export const previewLinkSchema = {
+  expiresIn: oneOf<PreviewExpiry>('Expiry', PREVIEW_EXPIRY_OPTIONS, '24h'),
+}
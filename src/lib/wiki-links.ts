@@ -0,0 +1,148 @@
+import type { BlogPost } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { WikiLinkResolver, wikiLinkTargets } from '@/lib/markdown'
+import { liveWhere } from '@/lib/publishing'
+import type { ThoughtBacklink } from '@/types/blog'
+
+// [[Thought Title]] and [[slug]] links between thoughts, optionally with a
+// label: [[slug|see here]]. A target matches a thought's slug or its title,
+// ignoring case and extra spaces; slugs win when both match.
+//
+// Every save stores the thought's outgoing links as ThoughtLink rows, which
+// the "Linked from" panel reads. Links are kept by the text they were written
+// with, and re-resolved whenever a thought they could point at is created,
+// renamed or deleted, so a link written before its target existed counts as
+// soon as the target does.
+
+type LinkTarget = Pick<BlogPost, 'id' | 'slug' | 'title'>
+type LinkSource = LinkTarget & Pick<BlogPost, 'content'>
+
+export function wikiLinkKey(target: string) {
+  return target.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+function targetKeys(thought: LinkTarget) {
+  return [thought.slug.toLowerCase(), wikiLinkKey(thought.title)]
+}
+
+// Slugs first, then titles, with the oldest thought taking a shared title
+function indexTargets(thoughts: LinkTarget[]) {
+  const byKey = new Map<string, LinkTarget>()
+
+  for (const thought of thoughts) {
+    byKey.set(thought.slug.toLowerCase(), thought)
+  }
+  for (const thought of thoughts) {
+    const key = wikiLinkKey(thought.title)
+    if (!byKey.has(key)) {
+      byKey.set(key, thought)
+    }
+  }
+
+  return byKey
+}
+
+async function allTargets() {
+  const thoughts = await prisma.blogPost.findMany({
+    select: { id: true, slug: true, title: true },
+    orderBy: { createdAt: 'asc' },
+  })
+  return indexTargets(thoughts)
+}
+
+// Resolves links against the live thoughts only, since a draft's page isn't
+// there to link to. A [[slug]] shows the thought's title.
+export async function liveWikiLinks(toUrl = (slug: string) => `/thoughts/${slug}`): Promise<WikiLinkResolver> {
+  const thoughts = await prisma.blogPost.findMany({
+    where: liveWhere(),
+    select: { id: true, slug: true, title: true },
+    orderBy: { createdAt: 'asc' },
+  })
+  const byKey = indexTargets(thoughts)
+
+  return (target) => {
+    const key = wikiLinkKey(target)
+    const thought = byKey.get(key)
+    if (!thought) {
+      return null
+    }
+    return { href: toUrl(thought.slug), text: key === thought.slug.toLowerCase() ? thought.title : target }
+  }
+}
+
+// Slugs of the thoughts a thought links to and of the ones linking to it,
+// i.e. the pages that show it
+export async function linkedThoughtSlugs(thoughtId: string) {
+  const [outgoing, incoming] = await Promise.all([
+    prisma.thoughtLink.findMany({
+      where: { sourceId: thoughtId, targetId: { not: null } },
+      select: { targetPost: { select: { slug: true } } },
+    }),
+    prisma.thoughtLink.findMany({
+      where: { targetId: thoughtId },
+      select: { source: { select: { slug: true } } },
+    }),
+  ])
+
+  return [
+    ...outgoing.flatMap(({ targetPost }) => (targetPost ? [targetPost.slug] : [])),
+    ...incoming.map(({ source }) => source.slug),
+  ]
+}
+
+// Replaces the stored outgoing links of a thought with the ones in its content
+export async function saveThoughtLinks(thought: LinkSource) {
+  const targets = Array.from(new Set(wikiLinkTargets(thought.content).map(wikiLinkKey)))
+  const byKey = await allTargets()
+
+  await prisma.$transaction([
+    prisma.thoughtLink.deleteMany({ where: { sourceId: thought.id } }),
+    prisma.thoughtLink.createMany({
+      data: targets.map(target => ({
+        sourceId: thought.id,
+        target,
+        targetId: byKey.get(target)?.id ?? null,
+      })),
+    }),
+  ])
+}
+
+// Points the links written as any of these thoughts' slugs or titles at
+// whatever they match now. Pass a thought's old and new version after a
+// rename, and the deleted thought after a delete.
+export async function refreshLinkTargets(...thoughts: LinkTarget[]) {
+  const keys = Array.from(new Set(thoughts.flatMap(targetKeys)))
+  const byKey = await allTargets()
+
+  await prisma.$transaction(
+    keys.map(key => prisma.thoughtLink.updateMany({
+      where: { target: key },
+      data: { targetId: byKey.get(key)?.id ?? null },
+    }))
+  )
+}
+
+// Everything a create, update or restore needs: stores the thought's links,
+// re-resolves links to its old and new name and returns the slugs of the
+// pages that showed it before or show it now, for revalidation
+export async function updateThoughtLinks(before: LinkSource | null, after: LinkSource) {
+  const linkedBefore = before ? await linkedThoughtSlugs(before.id) : []
+
+  await saveThoughtLinks(after)
+  await refreshLinkTargets(...(before ? [before, after] : [after]))
+
+  return [...linkedBefore, ...(await linkedThoughtSlugs(after.id))]
+}
+
+// Live thoughts linking to this one, newest first
+export async function listBacklinks(thoughtId: string): Promise<ThoughtBacklink[]> {
+  const links = await prisma.thoughtLink.findMany({
+    where: { targetId: thoughtId, sourceId: { not: thoughtId }, source: liveWhere() },
+    select: { source: { select: { slug: true, title: true, excerpt: true } } },
+    orderBy: { source: { createdAt: 'desc' } },
+  })
+
+  // [[slug]] and [[Title]] in the same thought are two links but one backlink
+  const bySlug = new Map(links.map(({ source }) => [source.slug, source]))
+  return Array.from(bySlug.values())
+}
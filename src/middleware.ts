@@ -1,62 +1,167 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-import * as jose from 'jose'
+import {
+  ADMIN_TOKEN_COOKIE,
+  CSRF_HEADER,
+  SESSION_REFRESH_PATH,
+  SESSION_VERIFY_PATH,
+  verifyAdminToken,
+  verifyCsrfToken,
+} from '@/lib/auth'
+import { getSectionPermission, hasPermission } from '@/lib/permissions'
 
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-key-for-development-only'
+// Routes under the admin prefixes that must stay reachable without a token
+const PUBLIC_ADMIN_PATHS = [
+  '/admin/login',
+  '/api/admin/login',
+  SESSION_REFRESH_PATH,
+  SESSION_VERIFY_PATH,
+]
+
+// Requests with any other method change state and must carry a CSRF token
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+// The edge runtime can't query the database, so revocation is checked by a
+// route handler. Any failure counts as a revoked session.
+async function isSessionActive(request: NextRequest, token: string) {
+  try {
+    const response = await fetch(new URL(SESSION_VERIFY_PATH, request.url), {
+      headers: { cookie: `${ADMIN_TOKEN_COOKIE}=${token}` },
+      cache: 'no-store',
+    })
+
+    return response.ok
+  } catch (error) {
+    console.error('Error verifying session:', error)
+    return false
+  }
+}
+
+// Sends page requests through the refresh endpoint, which rotates the refresh
+// token and comes back to the page, or ends up on the login page
+function redirectToRefresh(request: NextRequest) {
+  const url = new URL(SESSION_REFRESH_PATH, request.url)
+  url.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search)
+  return NextResponse.redirect(url)
+}
+
+// Public content pages are static and can't read the query string, so draft
+// preview links are handed to the dynamic preview pages under the same URL
+const PREVIEWABLE_PATH = /^\/(thoughts|projects)\/([^/]+)$/
+
+function rewritePreview(request: NextRequest) {
+  const match = request.nextUrl.pathname.match(PREVIEWABLE_PATH)
+  const token = request.nextUrl.searchParams.get('preview')
+
+  if (!match || !token) {
+    return null
+  }
+
+  const url = new URL(`/preview/${match[1]}/${match[2]}`, request.url)
+  url.searchParams.set('token', token)
+  return NextResponse.rewrite(url)
+}
 
 // Use JWT authentication for both frontend and API routes
 export async function middleware(request: NextRequest) {
-  // Only protect /admin routes
-  if (!request.nextUrl.pathname.startsWith('/admin')) {
+  const preview = rewritePreview(request)
+  if (preview) {
+    return preview
+  }
+
+  const { pathname } = request.nextUrl
+  const isApiRoute = pathname.startsWith('/api/admin')
+
+  // Only protect /admin pages and /api/admin routes
+  if (!isApiRoute && !pathname.startsWith('/admin')) {
+    return NextResponse.next()
+  }
+
+  // Login page and endpoint don't need a token
+  if (PUBLIC_ADMIN_PATHS.includes(pathname)) {
     return NextResponse.next()
   }
 
   // For all admin routes (including API), check for a valid JWT in cookies
-  const token = request.cookies.get('admin_token')?.value
+  const token = request.cookies.get(ADMIN_TOKEN_COOKIE)?.value
 
   // If there's no token, redirect to login page for frontend or return 401 for API
   if (!token) {
     // For API routes, return 401 Unauthorized
-    if (request.nextUrl.pathname.startsWith('/api/admin')) {
+    if (isApiRoute) {
       return new NextResponse('Authentication required', {
         status: 401,
       })
     }
-    
-    // Check if already on login page to avoid redirect loop
-    if (request.nextUrl.pathname === '/admin/login') {
-      return NextResponse.next()
-    }
-    
-    // Redirect to login page for frontend routes
-    return NextResponse.redirect(new URL('/admin/login', request.url))
+
+    // Try the refresh token before sending frontend routes to the login page
+    return redirectToRefresh(request)
   }
 
-  try {
-    // Verify JWT token
-    const secret = new TextEncoder().encode(JWT_SECRET)
-    await jose.jwtVerify(token, secret)
-    
+  // Verify JWT token
+  const payload = await verifyAdminToken(token)
+
+  if (payload) {
+    const permission = getSectionPermission(pathname)
+
+    // Token is valid but the role doesn't grant access to this section
+    if (permission && !hasPermission(payload.role, permission)) {
+      if (isApiRoute) {
+        return NextResponse.json(
+          { error: `Your role (${payload.role.toLowerCase()}) does not allow access to this resource` },
+          { status: 403 }
+        )
+      }
+
+      return NextResponse.redirect(new URL('/admin/dashboard', request.url))
+    }
+
+    // Mutations must echo the session's CSRF token in a header, which a
+    // cross-site form or script can't do
+    if (
+      isApiRoute &&
+      !SAFE_METHODS.includes(request.method) &&
+      !(await verifyCsrfToken(payload.sid, request.headers.get(CSRF_HEADER)))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid or missing CSRF token' },
+        { status: 403 }
+      )
+    }
+
+    // Token is valid, but the session may have been revoked since
+    if (!(await isSessionActive(request, token))) {
+      if (isApiRoute) {
+        return new NextResponse('Session revoked', {
+          status: 401,
+        })
+      }
+
+      const response = NextResponse.redirect(new URL('/admin/login', request.url))
+      response.cookies.delete(ADMIN_TOKEN_COOKIE)
+      return response
+    }
+
     // Token is valid, allow access
     return NextResponse.next()
-  } catch (error) {
-    // For API routes, return 401 Unauthorized
-    if (request.nextUrl.pathname.startsWith('/api/admin')) {
-      return new NextResponse('Invalid token', {
-        status: 401,
-      })
-    }
-    
-    // Invalid token, redirect to login for frontend routes
-    const response = NextResponse.redirect(new URL('/admin/login', request.url))
-    
-    // Clear the invalid token
-    response.cookies.delete('admin_token')
-    
-    return response
   }
+
+  // For API routes, return 401 Unauthorized
+  if (isApiRoute) {
+    return new NextResponse('Invalid token', {
+      status: 401,
+    })
+  }
+
+  // Invalid or expired token, try to refresh it for frontend routes
+  const response = redirectToRefresh(request)
+
+  // Clear the invalid token
+  response.cookies.delete(ADMIN_TOKEN_COOKIE)
+
+  return response
 }
 
 export const config = {
-  matcher: ['/admin/:path*', '/api/admin/:path*'],
-} 
\ No newline at end of file
+  matcher: ['/admin/:path*', '/api/admin/:path*', '/thoughts/:slug', '/projects/:slug'],
+}
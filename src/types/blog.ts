@@ -8,6 +8,31 @@ export interface BlogPost {
   createdAt?: string; // Using ISO 8601 string format
   updatedAt?: string;
   published?: boolean;
+  // Only set when the post was loaded through a draft preview link
+  preview?: { expiresAt: string };
+  // Computed from the rendered content by the single-post API. The toc lists
+  // every heading; the page only shows one for longer posts.
+  toc?: TocHeading[];
+  readingTime?: ReadingTime;
+}
+
+// A heading in rendered content; `id` is the anchor it links to
+export interface TocHeading {
+  id: string;
+  text: string;
+  depth: number;
+}
+
+export interface ReadingTime {
+  words: number;
+  minutes: number;
+}
+
+// A live thought that links to the one being read
+export interface ThoughtBacklink {
+  slug: string;
+  title: string;
+  excerpt: string | null;
 }
 
 // Add Project type if it doesn't exist
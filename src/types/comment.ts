@@ -0,0 +1,13 @@
+// An approved comment as shown on a thought page, with its approved replies.
+// The author's email is never part of it.
+export interface PublicComment {
+  id: string;
+  authorName: string;
+  body: string;
+  createdAt: string;
+  replies: PublicComment[];
+}
+
+// What a moderator can do with selected comments
+export const MODERATION_ACTIONS = ['approve', 'reject', 'ban'] as const;
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
@@ -0,0 +1,33 @@
+// The knowledge graph behind /graph, as served by /api/graph. Node ids are
+// prefixed with their type ("thought:some-slug", "tag:AI"), so they never
+// collide.
+export type GraphNodeType = 'thought' | 'project' | 'tag';
+
+export interface GraphNode {
+  id: string;
+  type: GraphNodeType;
+  label: string;
+  // Null for tags, which filter the graph instead of leading anywhere
+  url: string | null;
+  // Shown on hover; for a tag, how many items carry it
+  summary: string;
+  // Upper-cased, as on the tag nodes; empty for tags
+  tags: string[];
+}
+
+// tag: the item carries the tag
+// link: a [[wiki link]] between thoughts
+// reference: a plain link to another thought or project in the content
+export type GraphEdgeKind = 'tag' | 'link' | 'reference';
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: GraphEdgeKind;
+}
+
+export interface KnowledgeGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  generatedAt: string;
+}
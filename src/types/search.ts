@@ -0,0 +1,22 @@
+// A run of text from a search result; `match` marks the words that matched
+// the query. Results carry plain text, never HTML, so they are safe to render.
+export interface SearchTextPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  type: 'thought' | 'project';
+  slug: string;
+  url: string;
+  title: SearchTextPart[];
+  snippet: SearchTextPart[];
+  tags: string[];
+  createdAt: string;
+  rank: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}